@@ -5,6 +5,10 @@
  * - Retrieve Movement account address and public key associated with a Fireblocks vault account.
  * - Query balances and transaction history for the Movement account.
  * - Create MOVE and token transactions using Fireblocks raw signing.
+ * - Simulate MOVE and token transactions before they are sent for signing.
+ * - Call arbitrary Move entry functions using Fireblocks raw signing.
+ * - Prepare, sign and submit transactions in separate steps and poll their status.
+ * - Check that recipients exist and can receive a transfer, and refuse transfers to blocked recipients.
  *
  * Usage:
  * ```typescript
@@ -19,6 +23,7 @@
  * @public
  */
 import {
+  AccountAddress,
   AnyNumber,
   CommittedTransactionResponse,
   GetAccountCoinsDataResponse,
@@ -26,8 +31,17 @@ import {
 } from "@aptos-labs/ts-sdk";
 import { FireblocksService } from "./services/fireblocks.service";
 import { MovementService } from "./services/movement.service";
+import { TransactionLifecycleService } from "./services/lifecycle.service";
 import {
+  AccountStatus,
+  BatchTransfer,
+  BatchTransferResult,
+  CallEntryFunctionArguments,
+  CreateTransactionArguments,
+  EntryFunctionTransactionArguments,
+  FeeEstimate,
   FireblocksConfig,
+  GasPricingPolicy,
   GetAccountCoinsDataArguments,
   GetAllBalancesResponse,
   GetBalanceArguments,
@@ -35,12 +49,50 @@ import {
   GetTransactionHistoryResponse,
   GetTransactionHistoyArguments,
   MoveTransactionArguments,
+  MovementConfig,
+  PrepareTransactionArguments,
+  RecipientCheck,
+  RecipientPolicy,
+  SdkOptions,
+  SimulateTransactionResponse,
   TokenTransactionArguments,
+  TransactionOptions,
+  TransactionSigner,
   TransactionType,
+  TransferAmount,
+  TransferOptions,
+  TransferResponse,
+  VaultAddress,
 } from "./services/types";
-import { getTransactionConstants } from "./constants";
-import { formatErrorMessage } from "./utils/errorHandling";
+import {
+  addressIndexConstants,
+  derivationPath,
+  getTransactionConstants,
+  recipientPolicyDefaults,
+  sendAllConstants,
+} from "./constants";
+import {
+  formatErrorMessage,
+  IdempotencyKeyMismatchError,
+  SigningTimeoutError,
+  TransactionNotFoundError,
+} from "./utils/errorHandling";
 import { validateApiCredentials } from "./utils/fireblocks.utils";
+import {
+  deriveAptosAddress,
+  findIdempotentTransaction,
+  parseAccountAddress,
+} from "./utils/movement.utils";
+import {
+  IN_FLIGHT_TRANSACTION_STATUSES,
+  TransactionRecord,
+  TransactionStore,
+} from "./store/types";
+import {
+  matchesFilter,
+  MemoryTransactionStore,
+} from "./store/MemoryTransactionStore";
+import { SequenceNumberService } from "./services/sequence.service";
 
 export type MovementFireblocksSDKResponse =
   | string
@@ -49,31 +101,73 @@ export type MovementFireblocksSDKResponse =
   | TransactionResponse[]
   | GetAccountCoinsDataResponse
   | CommittedTransactionResponse
-  | GetTransactionHistoryResponse[];
+  | GetTransactionHistoryResponse[]
+  | BatchTransferResult[]
+  | FeeEstimate
+  | SimulateTransactionResponse
+  | TransactionRecord
+  | VaultAddress[]
+  | AccountStatus
+  | RecipientCheck;
 
 export class MovementFireblocksSDK {
-  private fireblocksService: FireblocksService;
+  private signer: TransactionSigner;
   private movementService: MovementService;
+  private transactionLifecycleService: TransactionLifecycleService;
+  private transactionStore: TransactionStore;
+  private sequenceNumberService: SequenceNumberService;
+  private gasPricingPolicy: GasPricingPolicy | undefined;
+  private recipientPolicy: Required<RecipientPolicy>;
   private vaultAccountId: string | number;
+  private addressIndex: number;
   private movementAddress: string | undefined;
   private movementPublicKey: string | undefined;
+  private accountStatus: AccountStatus | undefined;
   private chachedTransactions: GetTransactionHistoryResponse[] = [];
 
   private constructor(
     vaultAccountId: string | number,
-    fireblocksConfig?: FireblocksConfig
+    fireblocksConfig?: FireblocksConfig,
+    sdkOptions?: SdkOptions
   ) {
     try {
       // Validate Fireblocks API credentials before initializing services
-      if (fireblocksConfig) {
+      if (fireblocksConfig && !sdkOptions?.signer) {
         validateApiCredentials(
           fireblocksConfig.apiKey,
           fireblocksConfig.apiSecret ?? "",
           vaultAccountId
         );
       }
-      this.fireblocksService = new FireblocksService(fireblocksConfig);
-      this.movementService = new MovementService();
+      this.signer =
+        sdkOptions?.signer ??
+        new FireblocksService(fireblocksConfig, {
+          webhookService: sdkOptions?.webhookService,
+          polling: sdkOptions?.signingPolling,
+        });
+      this.movementService = new MovementService(sdkOptions?.movementConfig);
+      this.transactionStore =
+        sdkOptions?.transactionStore ?? new MemoryTransactionStore();
+      this.sequenceNumberService =
+        sdkOptions?.sequenceNumberService ?? new SequenceNumberService();
+      this.gasPricingPolicy = sdkOptions?.gasPricingPolicy;
+      this.recipientPolicy = {
+        blockSelfTransfers:
+          sdkOptions?.recipientPolicy?.blockSelfTransfers ??
+          recipientPolicyDefaults.blockSelfTransfers,
+        blockSpecialAddresses:
+          sdkOptions?.recipientPolicy?.blockSpecialAddresses ??
+          recipientPolicyDefaults.blockSpecialAddresses,
+        requireExistingAccount:
+          sdkOptions?.recipientPolicy?.requireExistingAccount ??
+          recipientPolicyDefaults.requireExistingAccount,
+      };
+      this.transactionLifecycleService = new TransactionLifecycleService(
+        this.movementService,
+        this.signer,
+        this.transactionStore,
+        this.sequenceNumberService
+      );
     } catch (error) {
       throw new Error(
         `Failed to initialize services: ${formatErrorMessage(error)}`
@@ -89,31 +183,50 @@ export class MovementFireblocksSDK {
     } else {
       this.vaultAccountId = vaultAccountId;
     }
+    this.addressIndex = sdkOptions?.addressIndex ?? derivationPath.addressIndex;
   }
 
   /**
    * Creates an instance of MovementFireblocksSDK.
    * @param vaultAccountId - The Fireblocks vault account ID.
-   * @param fireblocksConfig - Optional Fireblocks configuration.
+   * @param fireblocksConfig - Optional Fireblocks configuration, unused when `sdkOptions.signer` is set.
+   * @param sdkOptions - Optional SDK options, e.g. a shared transaction store or sequence number allocator,
+   * or a `signer` such as a `LocalSigner` that replaces Fireblocks signing. `sdkOptions.addressIndex` selects
+   * one of the vault's addresses, the first one by default, and `sdkOptions.recipientPolicy` the recipients
+   * that transfers are refused to.
    * @returns A Promise that resolves to an instance of MovementFireblocksSDK.
-   * @throws Will throw an error if the instance creation fails.
+   * @throws Will throw an error if the instance creation fails or the fullnode's chain ID does not match the network profile.
+   * The on-chain account is checked as well, and an account whose authentication key was rotated away from
+   * the Fireblocks key is reported, as transfers from it are refused.
    */
 
   public static create = async (
     vaultAccountId: string | number,
-    fireblocksConfig?: FireblocksConfig
+    fireblocksConfig?: FireblocksConfig,
+    sdkOptions?: SdkOptions
   ): Promise<MovementFireblocksSDK> => {
     try {
       const instance = new MovementFireblocksSDK(
         vaultAccountId,
-        fireblocksConfig
+        fireblocksConfig,
+        sdkOptions
       );
+      await instance.movementService.verifyChainId();
       instance.movementAddress =
-        await instance.fireblocksService.getMovementAddressByVaultID(
-          vaultAccountId
+        await instance.signer.getMovementAddressByVaultID(
+          vaultAccountId,
+          instance.addressIndex
         );
-      instance.movementPublicKey =
-        await instance.fireblocksService.getPublicKeyByVaultID(vaultAccountId);
+      instance.movementPublicKey = await instance.signer.getPublicKeyByVaultID(
+        vaultAccountId,
+        instance.addressIndex
+      );
+      const accountStatus = await instance.getAccountStatus();
+      if (!accountStatus.authenticationKeyMatches) {
+        console.warn(
+          `Account ${accountStatus.address} of vault ${vaultAccountId} has authentication key ${accountStatus.authenticationKey}, not the key of its Fireblocks public key; transfers from it are refused`
+        );
+      }
       return instance;
     } catch (error) {
       throw new Error(
@@ -140,6 +253,117 @@ export class MovementFireblocksSDK {
     return this.movementAddress || "";
   };
 
+  /**
+   * Retrieves the address index of this instance within the Fireblocks vault account.
+   * @returns The last index of the derivation path, 0 for the vault's first address.
+   */
+  public getAddressIndex = (): number => {
+    return this.addressIndex;
+  };
+
+  /**
+   * Derives consecutive Movement addresses of the Fireblocks vault account, e.g. to hand out deposit addresses.
+   * @param count - The number of addresses to derive.
+   * @param startIndex - The address index of the first address (default is 0).
+   * @returns A promise that resolves to the {VaultAddress} list, in the order of their address index.
+   * @throws {Error} If the range is invalid or if any address cannot be derived.
+   */
+  public getAddresses = async (
+    count: number,
+    startIndex: number = derivationPath.addressIndex
+  ): Promise<VaultAddress[]> => {
+    if (
+      !Number.isInteger(count) ||
+      count < 1 ||
+      !Number.isInteger(startIndex) ||
+      startIndex < 0 ||
+      startIndex + count - 1 > addressIndexConstants.maxIndex
+    ) {
+      throw new Error(
+        `Invalid address range: count must be a positive integer and indexes must be between 0 and ${addressIndexConstants.maxIndex}`
+      );
+    }
+    try {
+      const addresses: VaultAddress[] = [];
+      // One public key request per address, a bounded number at a time
+      for (
+        let offset = 0;
+        offset < count;
+        offset += addressIndexConstants.listConcurrency
+      ) {
+        const batchSize = Math.min(
+          addressIndexConstants.listConcurrency,
+          count - offset
+        );
+        addresses.push(
+          ...(await Promise.all(
+            Array.from({ length: batchSize }, async (_, batchOffset) => {
+              const addressIndex = startIndex + offset + batchOffset;
+              const publicKey = await this.signer.getPublicKeyByVaultID(
+                this.vaultAccountId,
+                addressIndex
+              );
+              return {
+                addressIndex,
+                address: deriveAptosAddress(publicKey),
+                publicKey,
+              };
+            })
+          ))
+        );
+      }
+      return addresses;
+    } catch (error) {
+      throw new Error(`Failed to get addresses: ${formatErrorMessage(error)}`);
+    }
+  };
+
+  /**
+   * Retrieves the on-chain state of the Movement account: whether it exists, its sequence number and whether its
+   * authentication key still matches the key derived from the Fireblocks public key.
+   * @returns A promise that resolves to the {AccountStatus} of the account.
+   * @throws {Error} If the movement address or public key is not set, or if the account cannot be fetched.
+   */
+  public getAccountStatus = async (): Promise<AccountStatus> => {
+    if (!this.movementAddress || !this.movementPublicKey) {
+      throw new Error("Movement address or public key is not set.");
+    }
+    this.accountStatus = await this.movementService.getAccountStatus(
+      this.movementAddress,
+      this.movementPublicKey
+    );
+    return this.accountStatus;
+  };
+
+  /**
+   * Checks whether a recipient can receive a transfer from this account: whether its account exists, whether
+   * it can hold the given fungible asset, and whether the recipient policy allows it.
+   * @param recipientAddress - The address of the recipient, in its long or short form.
+   * @param tokenType - Optional fungible asset metadata address; without it, a MOVE transfer is checked.
+   * @returns A promise that resolves to the {RecipientCheck} of the recipient.
+   * @throws {Error} If the address is invalid or the account cannot be fetched.
+   */
+  public checkRecipient = async (
+    recipientAddress: string,
+    tokenType?: string
+  ): Promise<RecipientCheck> => {
+    const address = parseAccountAddress(recipientAddress);
+    const check = await this.movementService.checkRecipient(
+      address,
+      tokenType && parseAccountAddress(tokenType)
+    );
+    const refusal = this.getRecipientRefusal(address, check.exists);
+    return refusal ? { ...check, canReceive: false, reason: refusal } : check;
+  };
+
+  /**
+   * Retrieves the Movement network profile this instance is connected to.
+   * @returns The {MovementConfig} with the network name, endpoints and expected chain ID.
+   */
+  public getNetworkConfig = (): MovementConfig => {
+    return this.movementService.getNetworkConfig();
+  };
+
   /**
    * Retrieves the MOVE balance for the current movement address.
    *
@@ -241,23 +465,28 @@ export class MovementFireblocksSDK {
 
   /**   * Creates a MOVE transaction to transfer funds to a recipient address.
    *   * @param recipientAddress - The address of the recipient.
-   * @param amount - The amount to transfer in MOVE.
+   * @param amount - The amount to transfer, in octas unless `transferOptions.amountUnit` is `decimal`.
+   * Pass `"max"` to send the whole balance minus the gas fee and `transferOptions.reserveAmount`.
    * @param maxGasAmount - Optional maximum gas amount for the transaction.
    * @param gasUnitPrice - Optional gas unit price for the transaction.
    * @param expireTimestamp - Optional expiration timestamp for the transaction.
    * @param accountSequenceNumber - Optional sequence number for the account.
-   * @returns A promise that resolves to a {CommittedTransactionResponse} containing the transaction details.
+   * @param transferOptions - Optional transfer options, e.g. `simulate` to dry-run the transaction before signing,
+   * `feePayerVaultAccountId` to have another vault sponsor the gas fees, or `idempotencyKey` to make retries safe.
+   * @returns A promise that resolves to a {TransferResponse} containing the transaction details and the `transferId` of its record.
+   * @throws {IdempotencyKeyMismatchError} If the idempotency key was used for another request.
    * @throws {Error} If the movement address, public key, or vault ID are not set, or if the transaction creation fails.
    */
 
   public createMoveTransaction = async (
     recipientAddress: string,
-    amount: number,
+    amount: TransferAmount,
     maxGasAmount?: number,
     gasUnitPrice?: number,
     expireTimestamp?: number,
-    accountSequenceNumber?: AnyNumber
-  ): Promise<CommittedTransactionResponse> => {
+    accountSequenceNumber?: AnyNumber,
+    transferOptions?: TransferOptions
+  ): Promise<TransferResponse> => {
     if (
       !this.movementAddress ||
       !this.movementPublicKey ||
@@ -270,47 +499,99 @@ export class MovementFireblocksSDK {
       movementAddress: this.movementAddress,
       movementPublicKey: this.movementPublicKey,
       movementService: this.movementService,
-      fireblocksService: this.fireblocksService,
+      signer: this.signer,
       vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      transactionStore: this.transactionStore,
+      sequenceNumberService: this.sequenceNumberService,
       recipientAddress,
       amount,
       maxGasAmount,
       gasUnitPrice,
       expireTimestamp,
       accountSequenceNumber,
+      ...transferOptions,
+      gasPricingPolicy:
+        transferOptions?.gasPricingPolicy ?? this.gasPricingPolicy,
     };
     try {
-      const response = await this.movementService.createTransaction(args);
+      await this.verifyAuthenticationKey();
+      await this.verifyRecipient(recipientAddress);
+      // A repeated send-all request returns the earlier transfer, which already emptied the balance
+      const previous = await findIdempotentTransaction(
+        this.transactionStore,
+        args
+      );
+      const transferArgs =
+        amount === sendAllConstants.amount && !previous
+          ? await this.movementService.resolveSendAllArguments(args)
+          : args;
+      const response =
+        await this.movementService.createTransaction(transferArgs);
       return response;
     } catch (error: any) {
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
       throw new Error(
         `Failed to create move transaction: ${formatErrorMessage(error)}`
       );
     }
   };
 
+  /**
+   * Sends the whole MOVE balance above the reserve to a recipient address.
+   * The maximum gas fee is deducted from the amount sent, and the unused part of it is refunded to the account,
+   * so the account ends with the reserve plus that refund.
+   * @param recipientAddress - The address of the recipient.
+   * @param transferOptions - Optional transfer options, e.g. `reserveAmount` to keep some octas in the account.
+   * @returns A promise that resolves to a {TransferResponse} containing the transaction details and the `transferId` of its record.
+   * @throws {Error} If the balance does not cover the gas fee and the reserve, or if the transaction creation fails.
+   */
+  public sendAll = async (
+    recipientAddress: string,
+    transferOptions?: TransferOptions
+  ): Promise<TransferResponse> => {
+    return this.createMoveTransaction(
+      recipientAddress,
+      sendAllConstants.amount,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      transferOptions
+    );
+  };
+
   /**
    * Creates a token transaction to transfer a specific token type to a recipient address.
    * @param recipientAddress - The address of the recipient.
-   * @param amount - The amount of the token to transfer.
+   * @param amount - The amount of the token to transfer, in base units unless `transferOptions.amountUnit` is `decimal`.
    * @param tokenType - The type of the token to transfer (e.g., "USDC", "BTC").
    * @param maxGasAmount - Optional maximum gas amount for the transaction.
    * @param gasUnitPrice - Optional gas unit price for the transaction.
    * @param expireTimestamp - Optional expiration timestamp for the transaction.
    * @param accountSequenceNumber - Optional sequence number for the account.
-   * @returns A promise that resolves to a {CommittedTransactionResponse} containing the transaction details.
+   * @param transferOptions - Optional transfer options, e.g. `simulate` to dry-run the transaction before signing
+   * or `feePayerVaultAccountId` to have another vault sponsor the gas fees.
+   * @returns A promise that resolves to a {TransferResponse} containing the transaction details and the `transferId` of its record.
+   * @throws {IdempotencyKeyMismatchError} If the idempotency key was used for another request.
    * @throws {Error} If the movement address, public key, or vault ID are not set, or if the transaction creation fails.
    */
 
   public createTokenTransaction = async (
     recipientAddress: string,
-    amount: number,
+    amount: TransferAmount,
     tokenType: string,
     maxGasAmount?: number,
     gasUnitPrice?: number,
     expireTimestamp?: number,
-    accountSequenceNumber?: AnyNumber
-  ): Promise<CommittedTransactionResponse> => {
+    accountSequenceNumber?: AnyNumber,
+    transferOptions?: TransferOptions
+  ): Promise<TransferResponse> => {
     if (
       !this.movementAddress ||
       !this.movementPublicKey ||
@@ -324,22 +605,571 @@ export class MovementFireblocksSDK {
       movementAddress: this.movementAddress,
       movementPublicKey: this.movementPublicKey,
       movementService: this.movementService,
-      fireblocksService: this.fireblocksService,
+      signer: this.signer,
       vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      transactionStore: this.transactionStore,
+      sequenceNumberService: this.sequenceNumberService,
       recipientAddress,
       amount,
       maxGasAmount,
       gasUnitPrice,
       expireTimestamp,
       accountSequenceNumber,
+      ...transferOptions,
+      gasPricingPolicy:
+        transferOptions?.gasPricingPolicy ?? this.gasPricingPolicy,
     };
     try {
+      await this.verifyAuthenticationKey();
+      await this.verifyRecipient(recipientAddress, tokenType);
       const response = await this.movementService.createTransaction(args);
       return response;
     } catch (error) {
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
       throw new Error(
         `Failed to create token transaction: ${formatErrorMessage(error)}`
       );
     }
   };
+
+  /**
+   * Simulates a MOVE transfer without signing or submitting it.
+   * @param recipientAddress - The address of the recipient.
+   * @param amount - The amount to transfer, in octas unless `transferOptions.amountUnit` is `decimal`.
+   * @param maxGasAmount - Optional maximum gas amount for the transaction.
+   * @param gasUnitPrice - Optional gas unit price for the transaction.
+   * @param expireTimestamp - Optional expiration timestamp for the transaction.
+   * @param accountSequenceNumber - Optional sequence number for the account.
+   * @param transferOptions - Optional transfer options, e.g. `feePayerVaultAccountId` to simulate a sponsored transfer.
+   * @returns A promise that resolves to a {SimulateTransactionResponse} with the VM status, gas used and balance changes.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if the simulation fails.
+   */
+  public simulateMoveTransaction = async (
+    recipientAddress: string,
+    amount: TransferAmount,
+    maxGasAmount?: number,
+    gasUnitPrice?: number,
+    expireTimestamp?: number,
+    accountSequenceNumber?: AnyNumber,
+    transferOptions?: TransferOptions
+  ): Promise<SimulateTransactionResponse> => {
+    if (
+      !this.movementAddress ||
+      !this.movementPublicKey ||
+      !this.vaultAccountId
+    ) {
+      throw new Error("Address, Public Key or Vault ID are not set");
+    }
+    const args: MoveTransactionArguments = {
+      transactionType: TransactionType.MOVE,
+      movementAddress: this.movementAddress,
+      movementPublicKey: this.movementPublicKey,
+      movementService: this.movementService,
+      signer: this.signer,
+      vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      recipientAddress,
+      amount,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      ...transferOptions,
+    };
+    try {
+      return await this.movementService.simulateTransferTransaction(args);
+    } catch (error) {
+      throw new Error(
+        `Failed to simulate move transaction: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Simulates a token transfer without signing or submitting it.
+   * @param recipientAddress - The address of the recipient.
+   * @param amount - The amount of the token to transfer, in base units unless `transferOptions.amountUnit` is `decimal`.
+   * @param tokenType - The type of the token to transfer.
+   * @param maxGasAmount - Optional maximum gas amount for the transaction.
+   * @param gasUnitPrice - Optional gas unit price for the transaction.
+   * @param expireTimestamp - Optional expiration timestamp for the transaction.
+   * @param accountSequenceNumber - Optional sequence number for the account.
+   * @param transferOptions - Optional transfer options, e.g. `feePayerVaultAccountId` to simulate a sponsored transfer.
+   * @returns A promise that resolves to a {SimulateTransactionResponse} with the VM status, gas used and balance changes.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if the simulation fails.
+   */
+  public simulateTokenTransaction = async (
+    recipientAddress: string,
+    amount: TransferAmount,
+    tokenType: string,
+    maxGasAmount?: number,
+    gasUnitPrice?: number,
+    expireTimestamp?: number,
+    accountSequenceNumber?: AnyNumber,
+    transferOptions?: TransferOptions
+  ): Promise<SimulateTransactionResponse> => {
+    if (
+      !this.movementAddress ||
+      !this.movementPublicKey ||
+      !this.vaultAccountId
+    ) {
+      throw new Error("Address, Public Key or Vault ID are not set");
+    }
+    const args: TokenTransactionArguments = {
+      transactionType: TransactionType.TOKEN,
+      tokenAsset: tokenType,
+      movementAddress: this.movementAddress,
+      movementPublicKey: this.movementPublicKey,
+      movementService: this.movementService,
+      signer: this.signer,
+      vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      recipientAddress,
+      amount,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      ...transferOptions,
+    };
+    try {
+      return await this.movementService.simulateTransferTransaction(args);
+    } catch (error) {
+      throw new Error(
+        `Failed to simulate token transaction: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Calls an arbitrary Move entry function as the vault's Movement account.
+   * The transaction is built, raw signed via Fireblocks, submitted and awaited
+   * exactly like MOVE and token transfers.
+   * @param callEntryFunctionArguments - The entry function to call.
+   * @param callEntryFunctionArguments.function - The fully qualified function ID (e.g. "0x1::aptos_account::transfer").
+   * @param callEntryFunctionArguments.typeArguments - Optional type arguments for generic functions.
+   * @param callEntryFunctionArguments.functionArguments - Optional arguments passed to the function (excluding the signer).
+   * @param callEntryFunctionArguments.options - Optional gas, expiration and sequence number options, and the note and
+   * customer reference ID of the Fireblocks signing request.
+   * @returns A promise that resolves to a {TransferResponse} containing the transaction details and the `transferId` of its record.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if the transaction creation fails.
+   */
+  public callEntryFunction = async (
+    callEntryFunctionArguments: CallEntryFunctionArguments
+  ): Promise<TransferResponse> => {
+    if (
+      !this.movementAddress ||
+      !this.movementPublicKey ||
+      !this.vaultAccountId
+    ) {
+      throw new Error("Address, Public Key or Vault ID are not set");
+    }
+    const {
+      function: functionId,
+      typeArguments,
+      functionArguments,
+      options,
+    } = callEntryFunctionArguments;
+    const args: EntryFunctionTransactionArguments = {
+      transactionType: TransactionType.ENTRY_FUNCTION,
+      movementAddress: this.movementAddress,
+      movementPublicKey: this.movementPublicKey,
+      movementService: this.movementService,
+      signer: this.signer,
+      vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      transactionStore: this.transactionStore,
+      sequenceNumberService: this.sequenceNumberService,
+      function: functionId,
+      typeArguments,
+      functionArguments: functionArguments ?? [],
+      ...options,
+    };
+    try {
+      await this.verifyAuthenticationKey();
+      const response = await this.movementService.createTransaction(args);
+      return response;
+    } catch (error) {
+      if (error instanceof SigningTimeoutError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to call entry function ${functionId}: ${formatErrorMessage(
+          error
+        )}`
+      );
+    }
+  };
+
+  /**
+   * Estimates the gas fees of a transaction without signing it, using the current fullnode gas price estimate
+   * and a simulation of the actual payload.
+   * @param prepareTransactionArguments - The MOVE, token or entry function transaction to estimate.
+   * @param gasPricingPolicy - Optional gas pricing policy, defaults to the policy the SDK was created with.
+   * @returns A promise that resolves to a {FeeEstimate} with the gas price, gas limit and fees in octas.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if the estimation fails.
+   */
+  public estimateFees = async (
+    prepareTransactionArguments: PrepareTransactionArguments,
+    gasPricingPolicy?: GasPricingPolicy
+  ): Promise<FeeEstimate> => {
+    const args = this.toCreateTransactionArguments(prepareTransactionArguments);
+    try {
+      return await this.movementService.estimateFees(
+        args,
+        gasPricingPolicy ?? this.gasPricingPolicy
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to estimate fees: ${formatErrorMessage(error)}`);
+    }
+  };
+
+  /**
+   * Creates a batch of MOVE and token transfers with consecutive sequence numbers.
+   * All transfers are signed through a single Fireblocks RAW signing request, so they need one approval.
+   * @param transfers - The transfers to send; a transfer without `tokenType` sends MOVE.
+   * @param options - Optional gas and expiration options applied to every transfer, and the note, customer
+   * reference ID and idempotency key of the signing request. Without a note, it lists the decoded transfers.
+   * Repeating the idempotency key with the same transfers returns the results of the earlier batch.
+   * @returns A promise that resolves to one {BatchTransferResult} per transfer, in the same order, each with the
+   * `transferId` of its stored record.
+   * @throws {IdempotencyKeyMismatchError} If the idempotency key was used for another request.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if building or signing the batch fails.
+   */
+  public createBatchTransfers = async (
+    transfers: BatchTransfer[],
+    options?: Omit<TransactionOptions, "accountSequenceNumber"> &
+      Pick<TransferOptions, "note" | "customerRefId" | "idempotencyKey">
+  ): Promise<BatchTransferResult[]> => {
+    const args = transfers.map((transfer) => ({
+      ...this.toCreateTransactionArguments(
+        transfer.tokenType
+          ? {
+              transactionType: TransactionType.TOKEN,
+              recipientAddress: transfer.recipientAddress,
+              amount: transfer.amount,
+              tokenType: transfer.tokenType,
+              amountUnit: transfer.amountUnit,
+              ...options,
+            }
+          : {
+              transactionType: TransactionType.MOVE,
+              recipientAddress: transfer.recipientAddress,
+              amount: transfer.amount,
+              amountUnit: transfer.amountUnit,
+              ...options,
+            }
+      ),
+      transactionStore: this.transactionStore,
+    }));
+    try {
+      await this.verifyAuthenticationKey();
+      for (const [index, transfer] of transfers.entries()) {
+        try {
+          await this.verifyRecipient(
+            transfer.recipientAddress,
+            transfer.tokenType
+          );
+        } catch (error: any) {
+          throw new Error(`Transfer ${index}: ${formatErrorMessage(error)}`);
+        }
+      }
+      const results = await this.movementService.createBatchTransactions(args);
+      return results.map((result, index) => ({
+        index,
+        ...transfers[index],
+        ...result,
+      }));
+    } catch (error: any) {
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to create batch transfers: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Builds and serializes a transaction without signing it, as the first step of the two-phase lifecycle.
+   * @param prepareTransactionArguments - The MOVE, token or entry function transaction to prepare.
+   * @returns A promise that resolves to the prepared {TransactionRecord}, including its ID and the signing message hex.
+   * @throws {IdempotencyKeyMismatchError} If the idempotency key was used for another request.
+   * @throws {Error} If the movement address, public key, or vault ID are not set, or if the preparation fails.
+   */
+  public prepareTransaction = async (
+    prepareTransactionArguments: PrepareTransactionArguments
+  ): Promise<TransactionRecord> => {
+    const args = this.toCreateTransactionArguments(prepareTransactionArguments);
+    await this.verifyAuthenticationKey();
+    if (
+      prepareTransactionArguments.transactionType !==
+      TransactionType.ENTRY_FUNCTION
+    ) {
+      await this.verifyRecipient(
+        prepareTransactionArguments.recipientAddress,
+        prepareTransactionArguments.transactionType === TransactionType.TOKEN
+          ? prepareTransactionArguments.tokenType
+          : undefined
+      );
+    }
+    return await this.transactionLifecycleService.prepareTransaction(args);
+  };
+
+  /**
+   * Starts Fireblocks raw signing for a prepared transaction without waiting for the approval.
+   * Poll {@link getTransactionStatus} until the transaction is `signed`.
+   * @param id - The ID returned by {@link prepareTransaction}.
+   * @param signingTimeoutMs - Optional signing timeout, after which the signing request is cancelled in Fireblocks.
+   * @returns A promise that resolves to the {TransactionRecord} holding the Fireblocks transaction ID.
+   * @throws {TransactionNotFoundError} If the transaction does not belong to this vault.
+   * @throws {TransactionStateError} If the transaction is not prepared, e.g. because it is already being signed.
+   * @throws {Error} If the signing request fails.
+   */
+  public signPreparedTransaction = async (
+    id: string,
+    signingTimeoutMs?: number
+  ): Promise<TransactionRecord> => {
+    await this.getOwnTransaction(id);
+    await this.verifyAuthenticationKey();
+    return await this.transactionLifecycleService.signPreparedTransaction(
+      id,
+      signingTimeoutMs
+    );
+  };
+
+  /**
+   * Cancels a transaction that is prepared, being signed or signed but not submitted.
+   * A pending Fireblocks signing request is cancelled as well.
+   * @param id - The ID of the transaction.
+   * @returns A promise that resolves to the {TransactionRecord} in the `cancelled` state.
+   * @throws {TransactionNotFoundError} If the transaction does not belong to this vault.
+   * @throws {TransactionStateError} If the transaction was already submitted.
+   * @throws {Error} If the signing request cannot be cancelled.
+   */
+  public cancelTransaction = async (id: string): Promise<TransactionRecord> => {
+    await this.getOwnTransaction(id);
+    return await this.transactionLifecycleService.cancelTransaction(id);
+  };
+
+  /**
+   * Submits a signed transaction without waiting for it to be committed.
+   * Poll {@link getTransactionStatus} until the transaction is `committed`.
+   * @param id - The ID returned by {@link prepareTransaction}.
+   * @returns A promise that resolves to the {TransactionRecord} holding the transaction hash.
+   * @throws {TransactionNotFoundError} If the transaction does not belong to this vault.
+   * @throws {TransactionStateError} If the transaction is not signed.
+   * @throws {Error} If the submission fails.
+   */
+  public submitSignedTransaction = async (
+    id: string
+  ): Promise<TransactionRecord> => {
+    await this.getOwnTransaction(id);
+    return await this.transactionLifecycleService.submitSignedTransaction(id);
+  };
+
+  /**
+   * Retrieves the current state of a prepared transaction.
+   * @param id - The ID returned by {@link prepareTransaction}.
+   * @returns A promise that resolves to the {TransactionRecord} or undefined if no transaction with this ID exists for the vault.
+   */
+  public getTransactionStatus = async (
+    id: string
+  ): Promise<TransactionRecord | undefined> => {
+    const record = await this.transactionLifecycleService.getTransaction(id);
+    if (
+      !record ||
+      !matchesFilter(record, {
+        vaultAccountId: String(this.vaultAccountId),
+        addressIndex: this.addressIndex,
+        network: this.movementService.getNetworkConfig().network,
+      })
+    ) {
+      return undefined;
+    }
+    return record;
+  };
+
+  /**
+   * Resumes the in-flight transactions of this vault that were interrupted, e.g. by a restart.
+   * Pending signatures and commits are tracked in the background; poll {@link getTransactionStatus} for the outcome.
+   * @returns A promise that resolves to the number of transactions that were resumed.
+   */
+  public resumePendingTransactions = async (): Promise<number> => {
+    const records = await this.listPendingTransactions();
+    for (const record of records) {
+      try {
+        await this.transactionLifecycleService.resumeTransaction(record);
+      } catch (error) {
+        console.error(
+          `Failed to resume transaction ${record.id}: ${formatErrorMessage(
+            error
+          )}`
+        );
+      }
+    }
+    return records.length;
+  };
+
+  /**
+   * Checks whether this vault has transactions that are prepared, being signed, or not yet committed.
+   * @returns A promise that resolves to true while any transaction of this vault is in flight.
+   */
+  public hasPendingTransactions = async (): Promise<boolean> => {
+    return (await this.listPendingTransactions()).length > 0;
+  };
+
+  private listPendingTransactions = async (): Promise<TransactionRecord[]> => {
+    return await this.transactionStore.list({
+      vaultAccountId: String(this.vaultAccountId),
+      addressIndex: this.addressIndex,
+      network: this.movementService.getNetworkConfig().network,
+      statuses: IN_FLIGHT_TRANSACTION_STATUSES,
+    });
+  };
+
+  // Refuses to sign for an account whose key was rotated, as the transaction would fail after the Fireblocks approval.
+  // A matching key is only checked once per instance, a mismatch or a missing account again before every transfer.
+  private verifyAuthenticationKey = async (): Promise<void> => {
+    const status =
+      this.accountStatus?.exists && this.accountStatus.authenticationKeyMatches
+        ? this.accountStatus
+        : await this.getAccountStatus();
+    if (!status.authenticationKeyMatches) {
+      throw new Error(
+        `Authentication key ${status.authenticationKey} of account ${status.address} does not match the key ${status.expectedAuthenticationKey} of the Fireblocks public key, it was rotated`
+      );
+    }
+  };
+
+  // Refuses transfers the recipient policy forbids before they reach Fireblocks for approval. The recipient
+  // account is only fetched for fungible assets, which it may be unable to hold, or if it has to exist.
+  private verifyRecipient = async (
+    recipientAddress: string,
+    tokenType?: string
+  ): Promise<void> => {
+    const address = parseAccountAddress(recipientAddress);
+    let refusal = this.getRecipientRefusal(address);
+    if (
+      !refusal &&
+      (tokenType || this.recipientPolicy.requireExistingAccount)
+    ) {
+      const check = await this.checkRecipient(address, tokenType);
+      refusal = check.canReceive ? undefined : check.reason;
+    }
+    if (refusal) {
+      throw new Error(`Recipient ${address} refused: ${refusal}`);
+    }
+  };
+
+  private getRecipientRefusal = (
+    address: string,
+    exists?: boolean
+  ): string | undefined => {
+    if (
+      this.recipientPolicy.blockSelfTransfers &&
+      this.movementAddress &&
+      address === AccountAddress.from(this.movementAddress).toStringLong()
+    ) {
+      return "transfers to the sending account are blocked";
+    }
+    if (
+      this.recipientPolicy.blockSpecialAddresses &&
+      AccountAddress.from(address).isSpecial()
+    ) {
+      return "transfers to 0x0 and framework addresses are blocked";
+    }
+    if (this.recipientPolicy.requireExistingAccount && exists === false) {
+      return "the account does not exist";
+    }
+    return undefined;
+  };
+
+  private getOwnTransaction = async (
+    id: string
+  ): Promise<TransactionRecord> => {
+    const record = await this.getTransactionStatus(id);
+    if (!record) {
+      throw new TransactionNotFoundError(
+        id,
+        `Transaction ${id} not found for vault ${this.vaultAccountId}`
+      );
+    }
+    return record;
+  };
+
+  private toCreateTransactionArguments = (
+    prepareTransactionArguments: PrepareTransactionArguments
+  ): CreateTransactionArguments => {
+    if (
+      !this.movementAddress ||
+      !this.movementPublicKey ||
+      !this.vaultAccountId
+    ) {
+      throw new Error("Address, Public Key or Vault ID are not set");
+    }
+    const base = {
+      movementAddress: this.movementAddress,
+      movementPublicKey: this.movementPublicKey,
+      movementService: this.movementService,
+      signer: this.signer,
+      vaultAccountId: this.vaultAccountId,
+      addressIndex: this.addressIndex,
+      sequenceNumberService: this.sequenceNumberService,
+      maxGasAmount: prepareTransactionArguments.maxGasAmount,
+      gasUnitPrice: prepareTransactionArguments.gasUnitPrice,
+      expireTimestamp: prepareTransactionArguments.expireTimestamp,
+      accountSequenceNumber: prepareTransactionArguments.accountSequenceNumber,
+      simulate: prepareTransactionArguments.simulate,
+      feePayerVaultAccountId:
+        prepareTransactionArguments.feePayerVaultAccountId,
+      amountUnit: prepareTransactionArguments.amountUnit,
+      signingTimeoutMs: prepareTransactionArguments.signingTimeoutMs,
+      idempotencyKey: prepareTransactionArguments.idempotencyKey,
+      note: prepareTransactionArguments.note,
+      customerRefId: prepareTransactionArguments.customerRefId,
+    };
+    switch (prepareTransactionArguments.transactionType) {
+      case TransactionType.MOVE:
+        return {
+          ...base,
+          transactionType: TransactionType.MOVE,
+          recipientAddress: prepareTransactionArguments.recipientAddress,
+          amount: prepareTransactionArguments.amount,
+        };
+      case TransactionType.TOKEN:
+        return {
+          ...base,
+          transactionType: TransactionType.TOKEN,
+          tokenAsset: prepareTransactionArguments.tokenType,
+          recipientAddress: prepareTransactionArguments.recipientAddress,
+          amount: prepareTransactionArguments.amount,
+        };
+      case TransactionType.ENTRY_FUNCTION:
+        return {
+          ...base,
+          transactionType: TransactionType.ENTRY_FUNCTION,
+          function: prepareTransactionArguments.function,
+          typeArguments: prepareTransactionArguments.typeArguments,
+          functionArguments:
+            prepareTransactionArguments.functionArguments ?? [],
+        };
+      default:
+        throw new Error(
+          `Unknown transaction type: ${
+            (prepareTransactionArguments as PrepareTransactionArguments)
+              .transactionType
+          }`
+        );
+    }
+  };
 }
@@ -1,11 +1,52 @@
 import { BasePath, TransactionResponse } from "@fireblocks/ts-sdk";
 import { SdkManager } from "../pool/SdkManager";
-import { ActionType, ApiServiceConfig } from "../pool/types";
+import { SweepManager } from "../pool/SweepManager";
+import {
+  ActionType,
+  ApiServiceConfig,
+  HealthReport,
+  SweepRequest,
+} from "../pool/types";
 import { MovementFireblocksSDKResponse } from "../MovementFireblocksSDK";
-import { formatErrorMessage } from "../utils/errorHandling";
+import {
+  formatErrorMessage,
+  IdempotencyKeyMismatchError,
+  SigningTimeoutError,
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../utils/errorHandling";
+import { FileTransactionStore } from "../store/FileTransactionStore";
+import { FileSweepStore } from "../store/FileSweepStore";
+import {
+  CreateVaultArguments,
+  FireblocksConfig,
+  FireblocksWebhookEvent,
+  ListVaultsArguments,
+  MovementNetwork,
+  ProvisionedVault,
+  ProvisionedVaultPage,
+} from "../services/types";
+import { FireblocksService } from "../services/fireblocks.service";
+import { MovementService } from "../services/movement.service";
+import { FireblocksWebhookService } from "../services/webhook.service";
+import { getDefaultNetwork } from "../utils/network.utils";
+import { transactionStoreConstants } from "../constants";
+import {
+  IN_FLIGHT_TRANSACTION_STATUSES,
+  SweepJob,
+  TransactionStore,
+} from "../store/types";
 
 export class MovementFireblocksApiService {
   private sdkManager: SdkManager;
+  private transactionStore: TransactionStore;
+  private sweepManager: SweepManager;
+  private pruneInterval: NodeJS.Timeout;
+  private healthServices: Map<MovementNetwork, MovementService> = new Map();
+  private webhookService?: FireblocksWebhookService;
+  private baseConfig: FireblocksConfig;
+  private customSigner: boolean;
+  private fireblocksService?: FireblocksService;
 
   constructor(config: ApiServiceConfig) {
     const baseConfig = {
@@ -14,22 +55,160 @@ export class MovementFireblocksApiService {
       basePath: (config.basePath as BasePath) || BasePath.US,
       vaultAccountId: "", // Will be overridden per request
     };
+    this.baseConfig = baseConfig;
+    this.customSigner = config.signer !== undefined;
 
-    this.sdkManager = new SdkManager(baseConfig, config.poolConfig);
+    this.transactionStore =
+      config.transactionStore ??
+      new FileTransactionStore(
+        process.env.TRANSACTION_STORE_PATH || "./data/transactions.json"
+      );
+    this.webhookService = config.webhookPublicKey
+      ? new FireblocksWebhookService(config.webhookPublicKey)
+      : undefined;
+    this.sdkManager = new SdkManager(
+      baseConfig,
+      config.poolConfig,
+      {
+        transactionStore: this.transactionStore,
+        gasPricingPolicy: config.gasPricingPolicy,
+        webhookService: this.webhookService,
+        signingPolling: config.signingPolling,
+        signer: config.signer,
+        recipientPolicy: config.recipientPolicy,
+      },
+      config.network,
+      config.networks
+    );
+    this.sweepManager = new SweepManager(
+      this.sdkManager,
+      config.sweepStore ??
+        new FileSweepStore(process.env.SWEEP_STORE_PATH || "./data/sweeps.json")
+    );
+
+    this.getHealth()
+      .then(({ networks }) => {
+        for (const check of networks.filter((check) => !check.healthy)) {
+          console.error(
+            `Network ${check.network} at ${check.fullnodeUrl} is unhealthy: ${check.error}`
+          );
+        }
+      })
+      .catch((error) =>
+        console.error(`Failed to check networks: ${formatErrorMessage(error)}`)
+      );
+
+    this.pruneTransactions().catch((error) =>
+      console.error(
+        `Failed to prune transactions: ${formatErrorMessage(error)}`
+      )
+    );
+    this.pruneInterval = setInterval(
+      () =>
+        this.pruneTransactions().catch((error) =>
+          console.error(
+            `Failed to prune transactions: ${formatErrorMessage(error)}`
+          )
+        ),
+      transactionStoreConstants.pruneIntervalMs
+    );
+
+    if (config.recoverPendingTransactions) {
+      this.recoverTransactions()
+        .catch((error) =>
+          console.error(
+            `Failed to recover pending transactions: ${formatErrorMessage(
+              error
+            )}`
+          )
+        )
+        // Recovered transfers settle in the background, sweeps fail the vaults whose transfers are still in flight
+        .then(() => this.sweepManager.resumeSweeps())
+        .catch((error) =>
+          console.error(`Failed to resume sweeps: ${formatErrorMessage(error)}`)
+        );
+    }
   }
 
+  /**
+   * Delete the committed, failed and cancelled transactions that settled longer ago than the retention period,
+   * so the transaction store does not grow without bound
+   */
+  public pruneTransactions = async (): Promise<number> => {
+    const settledBefore = new Date(
+      Date.now() - transactionStoreConstants.settledRetentionMs
+    ).toISOString();
+    return (await this.transactionStore.prune?.(settledBefore)) ?? 0;
+  };
+
+  /**
+   * Resume the in-flight transactions of every vault address and network found in the transaction store
+   */
+  public recoverTransactions = async (): Promise<number> => {
+    const records = await this.transactionStore.list({
+      statuses: IN_FLIGHT_TRANSACTION_STATUSES,
+    });
+    const vaults = new Map<
+      string,
+      {
+        vaultAccountId: string;
+        network: MovementNetwork;
+        addressIndex?: number;
+      }
+    >();
+    for (const record of records) {
+      const network = record.network ?? getDefaultNetwork();
+      vaults.set(
+        `${network}:${record.vaultAccountId}:${record.addressIndex ?? 0}`,
+        {
+          vaultAccountId: record.vaultAccountId,
+          network,
+          addressIndex: record.addressIndex,
+        }
+      );
+    }
+    let resumed = 0;
+    for (const { vaultAccountId, network, addressIndex } of vaults.values()) {
+      try {
+        const sdk = await this.sdkManager.getSdk(
+          vaultAccountId,
+          network,
+          addressIndex
+        );
+        try {
+          resumed += await sdk.resumePendingTransactions();
+        } finally {
+          this.sdkManager.releaseSdk(vaultAccountId, network, addressIndex);
+        }
+      } catch (error) {
+        console.error(
+          `Failed to recover transactions for vault ${vaultAccountId} address ${
+            addressIndex ?? 0
+          } on ${network}:`,
+          error
+        );
+      }
+    }
+    if (resumed > 0) {
+      console.log(`Resumed ${resumed} pending transaction(s)`);
+    }
+    return resumed;
+  };
+
   /**
    * Execute an action using the appropriate SDK method
    */
   public executeAction = async (
     vaultAccountId: string,
     actionType: ActionType,
-    params: any
+    params: any,
+    network?: MovementNetwork,
+    addressIndex?: number
   ): Promise<MovementFireblocksSDKResponse | TransactionResponse> => {
     let sdk;
     try {
       // Get SDK instance from the pool
-      sdk = await this.sdkManager.getSdk(vaultAccountId);
+      sdk = await this.sdkManager.getSdk(vaultAccountId, network, addressIndex);
 
       // Execute the appropriate action based on type
       let result;
@@ -41,7 +220,18 @@ export class MovementFireblocksApiService {
             params.maxGasAmount,
             params.gasUnitPrice,
             params.expireTimestamp,
-            params.accountSequenceNumber
+            params.accountSequenceNumber,
+            {
+              simulate: params.simulate,
+              feePayerVaultAccountId: params.feePayerVaultAccountId,
+              amountUnit: params.amountUnit,
+              gasPricingPolicy: params.gasPricingPolicy,
+              reserveAmount: params.reserveAmount,
+              signingTimeoutMs: params.signingTimeoutMs,
+              idempotencyKey: params.idempotencyKey,
+              note: params.note,
+              customerRefId: params.customerRefId,
+            }
           );
           break;
         case ActionType.CREATE_TOKEN_TRANSACTION:
@@ -52,9 +242,94 @@ export class MovementFireblocksApiService {
             params.maxGasAmount,
             params.gasUnitPrice,
             params.expireTimestamp,
-            params.accountSequenceNumber
+            params.accountSequenceNumber,
+            {
+              simulate: params.simulate,
+              feePayerVaultAccountId: params.feePayerVaultAccountId,
+              amountUnit: params.amountUnit,
+              gasPricingPolicy: params.gasPricingPolicy,
+              signingTimeoutMs: params.signingTimeoutMs,
+              idempotencyKey: params.idempotencyKey,
+              note: params.note,
+              customerRefId: params.customerRefId,
+            }
           );
           break;
+        case ActionType.SIMULATE_MOVE_TRANSACTION:
+          result = await sdk.simulateMoveTransaction(
+            params.recipientAddress,
+            params.amount,
+            params.maxGasAmount,
+            params.gasUnitPrice,
+            params.expireTimestamp,
+            params.accountSequenceNumber,
+            {
+              feePayerVaultAccountId: params.feePayerVaultAccountId,
+              amountUnit: params.amountUnit,
+            }
+          );
+          break;
+        case ActionType.SIMULATE_TOKEN_TRANSACTION:
+          result = await sdk.simulateTokenTransaction(
+            params.recipientAddress,
+            params.amount,
+            params.tokenType,
+            params.maxGasAmount,
+            params.gasUnitPrice,
+            params.expireTimestamp,
+            params.accountSequenceNumber,
+            {
+              feePayerVaultAccountId: params.feePayerVaultAccountId,
+              amountUnit: params.amountUnit,
+            }
+          );
+          break;
+        case ActionType.CALL_ENTRY_FUNCTION:
+          result = await sdk.callEntryFunction({
+            function: params.function,
+            typeArguments: params.typeArguments,
+            functionArguments: params.functionArguments,
+            options: {
+              maxGasAmount: params.maxGasAmount,
+              gasUnitPrice: params.gasUnitPrice,
+              expireTimestamp: params.expireTimestamp,
+              accountSequenceNumber: params.accountSequenceNumber,
+              note: params.note,
+              customerRefId: params.customerRefId,
+            },
+          });
+          break;
+        case ActionType.CREATE_BATCH_TRANSFERS:
+          result = await sdk.createBatchTransfers(params.transfers, {
+            maxGasAmount: params.maxGasAmount,
+            gasUnitPrice: params.gasUnitPrice,
+            expireTimestamp: params.expireTimestamp,
+            note: params.note,
+            customerRefId: params.customerRefId,
+            idempotencyKey: params.idempotencyKey,
+          });
+          break;
+        case ActionType.ESTIMATE_FEES:
+          result = await sdk.estimateFees(params, params.gasPricingPolicy);
+          break;
+        case ActionType.PREPARE_TRANSACTION:
+          result = await sdk.prepareTransaction(params);
+          break;
+        case ActionType.SIGN_PREPARED_TRANSACTION:
+          result = await sdk.signPreparedTransaction(
+            params.id,
+            params.signingTimeoutMs
+          );
+          break;
+        case ActionType.SUBMIT_SIGNED_TRANSACTION:
+          result = await sdk.submitSignedTransaction(params.id);
+          break;
+        case ActionType.CANCEL_TRANSACTION:
+          result = await sdk.cancelTransaction(params.id);
+          break;
+        case ActionType.GET_TRANSACTION_STATUS:
+          result = await sdk.getTransactionStatus(params.id);
+          break;
         case ActionType.GET_BALANCE:
           result = await sdk.getBalance();
           break;
@@ -77,6 +352,18 @@ export class MovementFireblocksApiService {
         case ActionType.GET_ACCOUNT_PUBLIC_KEY:
           result = await sdk.getMovementAccountPublicKey();
           break;
+        case ActionType.GET_ACCOUNT_STATUS:
+          result = await sdk.getAccountStatus();
+          break;
+        case ActionType.CHECK_RECIPIENT:
+          result = await sdk.checkRecipient(
+            params.recipientAddress,
+            params.tokenType
+          );
+          break;
+        case ActionType.GET_ADDRESSES:
+          result = await sdk.getAddresses(params.count, params.startIndex);
+          break;
         default:
           throw new Error(
             `InvalidType :
@@ -90,14 +377,106 @@ export class MovementFireblocksApiService {
         `Error executing ${actionType} for vault ${vaultAccountId}:`,
         error
       );
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof TransactionNotFoundError ||
+        error instanceof TransactionStateError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
       throw new Error(`Failed to execute action: ${formatErrorMessage(error)}`);
     } finally {
       // Always release the SDK back to the pool
       if (sdk) {
-        this.sdkManager.releaseSdk(vaultAccountId);
+        this.sdkManager.releaseSdk(vaultAccountId, network, addressIndex);
       }
     }
   };
+  /**
+   * Create a Fireblocks vault account and return its Movement address and public key
+   */
+  public createVault = async (
+    createVaultArguments: CreateVaultArguments,
+    idempotencyKey?: string
+  ): Promise<ProvisionedVault> => {
+    return this.getFireblocksService().createVault(
+      createVaultArguments,
+      idempotencyKey
+    );
+  };
+
+  /**
+   * List a page of Fireblocks vault accounts with their Movement addresses
+   */
+  public listVaults = async (
+    listVaultsArguments: ListVaultsArguments
+  ): Promise<ProvisionedVaultPage> => {
+    return this.getFireblocksService().listVaults(listVaultsArguments);
+  };
+
+  /**
+   * Start a sweep job that consolidates the balances of several vaults into a target address
+   */
+  public createSweep = async (request: SweepRequest): Promise<SweepJob> => {
+    return this.sweepManager.createSweep(request);
+  };
+
+  /**
+   * Get the report of a sweep job
+   */
+  public getSweep = async (id: string): Promise<SweepJob | undefined> => {
+    return this.sweepManager.getSweep(id);
+  };
+
+  /**
+   * Whether Fireblocks webhook notifications are accepted, i.e. a webhook public key is configured
+   */
+  public isWebhookEnabled = (): boolean => {
+    return this.webhookService !== undefined;
+  };
+
+  /**
+   * Verify a Fireblocks webhook notification and resolve the signing request it updates
+   * @returns False if the signature is invalid
+   */
+  public handleWebhook = (
+    rawBody: Buffer | string,
+    signature: string | undefined,
+    event: FireblocksWebhookEvent
+  ): boolean => {
+    if (!this.webhookService) {
+      throw new Error("Fireblocks webhook receiver is not configured");
+    }
+    if (!this.webhookService.verifySignature(rawBody, signature)) {
+      return false;
+    }
+    this.webhookService.handleEvent(event);
+    return true;
+  };
+
+  /**
+   * Check that the fullnode of every served network is reachable and on the expected chain
+   */
+  public getHealth = async (): Promise<HealthReport> => {
+    const networks = await Promise.all(
+      this.sdkManager.getNetworks().map((network) => {
+        let movementService = this.healthServices.get(network);
+        if (!movementService) {
+          movementService = new MovementService(
+            this.sdkManager.getMovementConfig(network)
+          );
+          this.healthServices.set(network, movementService);
+        }
+        return movementService.checkChainId();
+      })
+    );
+    return {
+      healthy: networks.every((check) => check.healthy),
+      networks,
+    };
+  };
+
   /**
    * Get metrics about the SDK pool
    */
@@ -109,6 +488,20 @@ export class MovementFireblocksApiService {
    * Shut down the API service and all SDK instances
    */
   public shutdown = async (): Promise<void> => {
+    clearInterval(this.pruneInterval);
     return this.sdkManager.shutdown();
   };
+
+  // Vault provisioning uses its own Fireblocks client, created on the first provisioning request
+  private getFireblocksService = (): FireblocksService => {
+    if (this.customSigner) {
+      throw new Error(
+        "Vault provisioning needs Fireblocks and is not available with a custom signer"
+      );
+    }
+    if (!this.fireblocksService) {
+      this.fireblocksService = new FireblocksService(this.baseConfig);
+    }
+    return this.fireblocksService;
+  };
 }
@@ -2,15 +2,90 @@ import { Request, Response, NextFunction } from "express";
 import { MovementFireblocksApiService } from "./api.service";
 import { ActionType, ApiServiceConfig } from "../pool/types";
 import { BasePath } from "@fireblocks/ts-sdk";
-import { getTransactionConstants } from "../constants";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+  accountAddressFormat,
+  addressIndexConstants,
+  batchTransferConstants,
+  getTransactionConstants,
+  idempotencyConstants,
+  networkHeader,
+  sweepConstants,
+  transferIdHeader,
+  vaultProvisioningConstants,
+  webhookConstants,
+} from "../constants";
+import {
+  AmountUnit,
+  GasPricingPolicy,
+  GasPriority,
+  MovementNetwork,
+  TransactionType,
+  TransferResponse,
+} from "../services/types";
+import { TransactionRecord } from "../store/types";
+import {
+  IdempotencyKeyMismatchError,
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../utils/errorHandling";
+import { isValidAccountAddress } from "../utils/movement.utils";
 
-// Configure the API Service once for all handlers
+declare module "http" {
+  interface IncomingMessage {
+    // The request body exactly as received, kept by the JSON parser in server.ts
+    rawBody?: Buffer;
+  }
+}
+
+const optionalNumber = (value?: string): number | undefined =>
+  value ? Number(value) : undefined;
+
+const optionalBoolean = (value?: string): boolean | undefined =>
+  value ? value === "true" : undefined;
+
+// Configure the API Service once for all handlers, the only instance of the server
 const apiConfig: ApiServiceConfig = {
   apiKey: process.env.FIREBLOCKS_API_KEY || "",
   apiSecret: process.env.FIREBLOCKS_SECRET_KEY_PATH || "",
   basePath: (process.env.FIREBLOCKS_BASE_PATH as BasePath) || BasePath.US,
-  // Optional: customize pool size/timeouts here
-  poolConfig: {},
+  poolConfig: {
+    maxPoolSize: parseInt(process.env.POOL_MAX_SIZE || "100"),
+    idleTimeoutMs: parseInt(process.env.POOL_IDLE_TIMEOUT_MS || "1800000"),
+    cleanupIntervalMs: parseInt(
+      process.env.POOL_CLEANUP_INTERVAL_MS || "300000"
+    ),
+  },
+  recoverPendingTransactions: true,
+  // Optional: endpoints of the custom network or overrides of the built-in profiles
+  networks: {},
+  // Optional: default gas pricing for transfers without explicit gas values
+  gasPricingPolicy:
+    process.env.GAS_PRICE_PRIORITY || process.env.MAX_GAS_FEE_OCTAS
+      ? {
+          priority: process.env.GAS_PRICE_PRIORITY as GasPriority | undefined,
+          maxFee: process.env.MAX_GAS_FEE_OCTAS,
+        }
+      : undefined,
+  // Optional: Fireblocks webhook public key, enables POST /webhooks/fireblocks
+  webhookPublicKey: process.env.FIREBLOCKS_WEBHOOK_PUBLIC_KEY || undefined,
+  // Optional: polling of signing requests, the fallback when webhooks are enabled
+  signingPolling: {
+    intervalMs: optionalNumber(process.env.FIREBLOCKS_POLL_INTERVAL_MS),
+    maxIntervalMs: optionalNumber(process.env.FIREBLOCKS_POLL_MAX_INTERVAL_MS),
+    backoffFactor: optionalNumber(process.env.FIREBLOCKS_POLL_BACKOFF_FACTOR),
+    maxWaitMs: optionalNumber(process.env.FIREBLOCKS_SIGNING_MAX_WAIT_MS),
+  },
+  // Optional: recipients that transfers are refused to
+  recipientPolicy: {
+    blockSelfTransfers: optionalBoolean(process.env.BLOCK_SELF_TRANSFERS),
+    blockSpecialAddresses: optionalBoolean(
+      process.env.BLOCK_SPECIAL_RECIPIENTS
+    ),
+    requireExistingAccount: optionalBoolean(
+      process.env.REQUIRE_EXISTING_RECIPIENT
+    ),
+  },
 };
 const apiService = new MovementFireblocksApiService(apiConfig);
 
@@ -21,6 +96,214 @@ type Handler = (
   next: NextFunction
 ) => Promise<void>;
 
+const isValidAmountUnit = (amountUnit: unknown): boolean =>
+  amountUnit === undefined ||
+  Object.values(AmountUnit).includes(amountUnit as AmountUnit);
+
+const invalidAmountUnitError = `Bad Request : amountUnit must be one of ${Object.values(
+  AmountUnit
+).join(", ")}`;
+
+const invalidRecipientAddressError = `Bad Request : recipientAddress must be ${accountAddressFormat}`;
+
+const invalidTokenTypeError =
+  "Bad Request : tokenType must be a fungible asset metadata address";
+
+// Network selected by the request header, validated by the router
+const getNetwork = (req: Request): MovementNetwork | undefined =>
+  (req.get(networkHeader) as MovementNetwork | undefined) || undefined;
+
+// Address index of the /:vaultId/addresses/:index routes, validated by the router
+const getAddressIndex = (req: Request): number | undefined =>
+  req.params.index !== undefined ? Number(req.params.index) : undefined;
+
+// Path of the vault address the request was made for, e.g. /api/1/addresses/2
+const getVaultPath = (req: Request): string =>
+  `${req.baseUrl}/${req.params.vaultId}${
+    req.params.index !== undefined ? `/addresses/${req.params.index}` : ""
+  }`;
+
+// Builds the gas pricing policy from request fields, or returns a validation error
+const parseGasPricingPolicy = (
+  gasPriority: unknown,
+  maxFee: unknown
+): { gasPricingPolicy?: GasPricingPolicy; error?: string } => {
+  if (gasPriority === undefined && maxFee === undefined) {
+    return {};
+  }
+  if (
+    gasPriority !== undefined &&
+    !Object.values(GasPriority).includes(gasPriority as GasPriority)
+  ) {
+    return {
+      error: `Bad Request : gasPriority must be one of ${Object.values(
+        GasPriority
+      ).join(", ")}`,
+    };
+  }
+  if (maxFee !== undefined && !/^\d+$/.test(String(maxFee))) {
+    return { error: "Bad Request : maxFee must be a whole number of octas" };
+  }
+  return {
+    gasPricingPolicy: {
+      priority: gasPriority as GasPriority | undefined,
+      maxFee: maxFee !== undefined ? String(maxFee) : undefined,
+    },
+  };
+};
+
+const isWholeNumber = (value: unknown): boolean =>
+  (typeof value === "string" || typeof value === "number") &&
+  /^\d+$/.test(String(value));
+
+const isValidSigningTimeout = (signingTimeoutMs: unknown): boolean =>
+  signingTimeoutMs === undefined ||
+  (isWholeNumber(signingTimeoutMs) && Number(signingTimeoutMs) > 0);
+
+const invalidSigningTimeoutError =
+  "Bad Request : signingTimeoutMs must be a positive whole number of milliseconds";
+
+const isValidFeePayerVaultAccountId = (
+  feePayerVaultAccountId: unknown
+): boolean =>
+  feePayerVaultAccountId === undefined || isWholeNumber(feePayerVaultAccountId);
+
+const invalidFeePayerVaultAccountIdError =
+  "Bad Request : feePayerVaultAccountId must be a vault account ID";
+
+// Custom note and customer reference ID of the Fireblocks signing request
+const isValidSigningRequestDetails = (
+  note: unknown,
+  customerRefId: unknown
+): boolean =>
+  [note, customerRefId].every(
+    (value) =>
+      value === undefined || (typeof value === "string" && value.trim() !== "")
+  );
+
+const invalidSigningRequestDetailsError =
+  "Bad Request : note and customerRefId must be non-empty strings";
+
+// Idempotency key of the request header, sent to Fireblocks as the externalTxId
+const getIdempotencyKey = (
+  req: Request
+): { idempotencyKey?: string; error?: string } => {
+  const idempotencyKey = req.get(idempotencyConstants.header);
+  if (idempotencyKey === undefined) {
+    return {};
+  }
+  if (
+    idempotencyKey.trim() === "" ||
+    idempotencyKey.length > idempotencyConstants.maxKeyLength
+  ) {
+    return {
+      error: `Bad Request : ${idempotencyConstants.header} must be between 1 and ${idempotencyConstants.maxKeyLength} characters`,
+    };
+  }
+  return { idempotencyKey };
+};
+
+// Points the client of a synchronous transfer to the status resource of its stored record
+const setTransferIdHeader = (res: Response, tx: TransferResponse): void => {
+  if (tx.transferId) {
+    res.setHeader(transferIdHeader, tx.transferId);
+  }
+};
+
+// Answers unknown transactions with 404, steps that do not fit the transaction's state with 409
+// and idempotency keys reused for another request with 422
+const handleTransactionError = (
+  err: unknown,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (
+    err instanceof TransactionNotFoundError ||
+    err instanceof TransactionStateError ||
+    err instanceof IdempotencyKeyMismatchError
+  ) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  next(err);
+};
+
+// Returns a validation error for a sweep request body, if any
+const validateSweepRequest = (body: any): string | undefined => {
+  const {
+    vaultAccountIds,
+    vaultAccountIdRange,
+    targetAddress,
+    minimumBalances,
+    gasReserve,
+    feePayerVaultAccountId,
+    concurrency,
+  } = body ?? {};
+  if (!isValidAccountAddress(targetAddress)) {
+    return "Bad Request : targetAddress must be a valid account address";
+  }
+  let vaultCount: number;
+  if (vaultAccountIds !== undefined) {
+    if (
+      !Array.isArray(vaultAccountIds) ||
+      vaultAccountIds.length === 0 ||
+      !vaultAccountIds.every(isWholeNumber)
+    ) {
+      return "Bad Request : vaultAccountIds must be a non-empty array of vault account IDs";
+    }
+    vaultCount = vaultAccountIds.length;
+  } else if (vaultAccountIdRange !== undefined) {
+    const { from, to } = vaultAccountIdRange;
+    if (
+      !Number.isSafeInteger(from) ||
+      !Number.isSafeInteger(to) ||
+      from < 0 ||
+      from > to
+    ) {
+      return "Bad Request : vaultAccountIdRange must have integer from and to with 0 <= from <= to";
+    }
+    vaultCount = to - from + 1;
+  } else {
+    return "Bad Request : vaultAccountIds or vaultAccountIdRange is required";
+  }
+  if (vaultCount > sweepConstants.maxVaults) {
+    return `Bad Request : a sweep can include at most ${sweepConstants.maxVaults} vaults`;
+  }
+  if (
+    !minimumBalances ||
+    typeof minimumBalances !== "object" ||
+    Object.keys(minimumBalances).length === 0
+  ) {
+    return "Bad Request : minimumBalances must map at least one asset to a minimum balance";
+  }
+  for (const [asset, minimum] of Object.entries(minimumBalances)) {
+    if (
+      asset !== sweepConstants.nativeAsset &&
+      !AccountAddress.isValid({ input: asset }).valid
+    ) {
+      return `Bad Request : minimumBalances asset ${asset} must be ${sweepConstants.nativeAsset} or a fungible asset metadata address`;
+    }
+    if (!isWholeNumber(minimum)) {
+      return `Bad Request : minimum balance of ${asset} must be a whole number of base units`;
+    }
+  }
+  if (gasReserve !== undefined && !isWholeNumber(gasReserve)) {
+    return "Bad Request : gasReserve must be a whole number of octas";
+  }
+  if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+    return invalidFeePayerVaultAccountIdError;
+  }
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) ||
+      concurrency < 1 ||
+      concurrency > sweepConstants.maxConcurrency)
+  ) {
+    return `Bad Request : concurrency must be an integer between 1 and ${sweepConstants.maxConcurrency}`;
+  }
+  return undefined;
+};
+
 // GET /:vaultId/address
 export const getAddress: Handler = async (req, res, next) => {
   try {
@@ -28,7 +311,9 @@ export const getAddress: Handler = async (req, res, next) => {
     const address = await apiService.executeAction(
       vaultId,
       ActionType.GET_ACCOUNT_ADDRESS,
-      {}
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json({ address });
   } catch (err) {
@@ -36,6 +321,88 @@ export const getAddress: Handler = async (req, res, next) => {
   }
 };
 
+// GET /:vaultId/account
+export const getAccount: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const account = await apiService.executeAction(
+      vaultId,
+      ActionType.GET_ACCOUNT_STATUS,
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(account);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /:vaultId/recipients/:address
+export const checkRecipient: Handler = async (req, res, next) => {
+  try {
+    const { vaultId, address } = req.params;
+    const { tokenType } = req.query as Record<string, string | undefined>;
+    if (!isValidAccountAddress(address)) {
+      res.status(400).json({
+        error: `Bad Request : address must be ${accountAddressFormat}`,
+      });
+      return;
+    }
+    if (tokenType !== undefined && !isValidAccountAddress(tokenType)) {
+      res.status(400).json({ error: invalidTokenTypeError });
+      return;
+    }
+    const recipient = await apiService.executeAction(
+      vaultId,
+      ActionType.CHECK_RECIPIENT,
+      { recipientAddress: address, tokenType },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(recipient);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /:vaultId/addresses
+export const getAddresses: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const { count = addressIndexConstants.defaultListCount, startIndex = 0 } =
+      req.query;
+    if (
+      !isWholeNumber(count) ||
+      Number(count) < 1 ||
+      Number(count) > addressIndexConstants.maxListCount
+    ) {
+      res.status(400).json({
+        error: `Bad Request : count must be an integer between 1 and ${addressIndexConstants.maxListCount}`,
+      });
+      return;
+    }
+    if (
+      !isWholeNumber(startIndex) ||
+      Number(startIndex) + Number(count) - 1 > addressIndexConstants.maxIndex
+    ) {
+      res.status(400).json({
+        error: `Bad Request : startIndex must be an integer and the addresses must stay within index ${addressIndexConstants.maxIndex}`,
+      });
+      return;
+    }
+    const addresses = await apiService.executeAction(
+      vaultId,
+      ActionType.GET_ADDRESSES,
+      { count: Number(count), startIndex: Number(startIndex) },
+      getNetwork(req)
+    );
+    res.json({ addresses });
+  } catch (err) {
+    next(err);
+  }
+};
+
 // GET /:vaultId/publicKey
 export const getPublicKey: Handler = async (req, res, next) => {
   try {
@@ -43,7 +410,9 @@ export const getPublicKey: Handler = async (req, res, next) => {
     const pubKey = await apiService.executeAction(
       vaultId,
       ActionType.GET_ACCOUNT_PUBLIC_KEY,
-      {}
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json({ publicKey: pubKey });
   } catch (err) {
@@ -58,7 +427,9 @@ export const getBalance: Handler = async (req, res, next) => {
     const balance = await apiService.executeAction(
       vaultId,
       ActionType.GET_BALANCE,
-      {}
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json(balance);
   } catch (err) {
@@ -73,7 +444,9 @@ export const getBalances: Handler = async (req, res, next) => {
     const balances = await apiService.executeAction(
       vaultId,
       ActionType.GET_BALANCES,
-      {}
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json(balances);
   } catch (err) {
@@ -88,7 +461,9 @@ export const getCoinsData: Handler = async (req, res, next) => {
     const balances = await apiService.executeAction(
       vaultId,
       ActionType.GET_ACCOUNT_COINS_DATA,
-      {}
+      {},
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json(balances);
   } catch (err) {
@@ -111,7 +486,9 @@ export const getTransactionsHistory: Handler = async (req, res, next) => {
     const history = await apiService.executeAction(
       vaultId,
       ActionType.GET_TRANSACTIONS_HISTORY,
-      { getCachedTransactions, limit, offset }
+      { getCachedTransactions, limit, offset },
+      getNetwork(req),
+      getAddressIndex(req)
     );
     res.json(history);
   } catch (err) {
@@ -130,6 +507,15 @@ export const createMoveTransaction: Handler = async (req, res, next) => {
       gasUnitPrice,
       expireTimestamp,
       accountSequenceNumber,
+      simulate,
+      feePayerVaultAccountId,
+      amountUnit,
+      gasPriority,
+      maxFee,
+      reserveAmount,
+      signingTimeoutMs,
+      note,
+      customerRefId,
     } = req.body;
     if (!recipientAddress || !amount) {
       res.status(400).json({
@@ -137,6 +523,40 @@ export const createMoveTransaction: Handler = async (req, res, next) => {
       });
       return;
     }
+    if (!isValidAccountAddress(recipientAddress)) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    if (!isValidSigningTimeout(signingTimeoutMs)) {
+      res.status(400).json({ error: invalidSigningTimeoutError });
+      return;
+    }
+    if (!isValidSigningRequestDetails(note, customerRefId)) {
+      res.status(400).json({ error: invalidSigningRequestDetailsError });
+      return;
+    }
+    const { idempotencyKey, error: idempotencyKeyError } =
+      getIdempotencyKey(req);
+    if (idempotencyKeyError) {
+      res.status(400).json({ error: idempotencyKeyError });
+      return;
+    }
+    const { gasPricingPolicy, error } = parseGasPricingPolicy(
+      gasPriority,
+      maxFee
+    );
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
     const tx = await apiService.executeAction(
       vaultId,
       ActionType.CREATE_MOVE_TRANSACTION,
@@ -147,11 +567,24 @@ export const createMoveTransaction: Handler = async (req, res, next) => {
         gasUnitPrice,
         expireTimestamp,
         accountSequenceNumber,
-      }
+        simulate,
+        feePayerVaultAccountId,
+        amountUnit,
+        gasPricingPolicy,
+        reserveAmount,
+        signingTimeoutMs:
+          signingTimeoutMs !== undefined ? Number(signingTimeoutMs) : undefined,
+        idempotencyKey,
+        note,
+        customerRefId,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
     );
+    setTransferIdHeader(res, tx as TransferResponse);
     res.json(tx);
   } catch (err) {
-    next(err);
+    handleTransactionError(err, res, next);
   }
 };
 
@@ -167,6 +600,14 @@ export const createTokenTransaction: Handler = async (req, res, next) => {
       gasUnitPrice,
       expireTimestamp,
       accountSequenceNumber,
+      simulate,
+      feePayerVaultAccountId,
+      amountUnit,
+      gasPriority,
+      maxFee,
+      signingTimeoutMs,
+      note,
+      customerRefId,
     } = req.body;
     if (!recipientAddress || !amount || !tokenType) {
       res.status(400).json({
@@ -175,6 +616,44 @@ export const createTokenTransaction: Handler = async (req, res, next) => {
       });
       return;
     }
+    if (!isValidAccountAddress(recipientAddress)) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (!isValidAccountAddress(tokenType)) {
+      res.status(400).json({ error: invalidTokenTypeError });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    if (!isValidSigningTimeout(signingTimeoutMs)) {
+      res.status(400).json({ error: invalidSigningTimeoutError });
+      return;
+    }
+    if (!isValidSigningRequestDetails(note, customerRefId)) {
+      res.status(400).json({ error: invalidSigningRequestDetailsError });
+      return;
+    }
+    const { idempotencyKey, error: idempotencyKeyError } =
+      getIdempotencyKey(req);
+    if (idempotencyKeyError) {
+      res.status(400).json({ error: idempotencyKeyError });
+      return;
+    }
+    const { gasPricingPolicy, error } = parseGasPricingPolicy(
+      gasPriority,
+      maxFee
+    );
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
     const tx = await apiService.executeAction(
       vaultId,
       ActionType.CREATE_TOKEN_TRANSACTION,
@@ -186,9 +665,738 @@ export const createTokenTransaction: Handler = async (req, res, next) => {
         gasUnitPrice,
         expireTimestamp,
         accountSequenceNumber,
-      }
+        simulate,
+        feePayerVaultAccountId,
+        amountUnit,
+        gasPricingPolicy,
+        signingTimeoutMs:
+          signingTimeoutMs !== undefined ? Number(signingTimeoutMs) : undefined,
+        idempotencyKey,
+        note,
+        customerRefId,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
     );
+    setTransferIdHeader(res, tx as TransferResponse);
     res.json(tx);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// POST /:vaultId/transfer/move/simulate
+export const simulateMoveTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      recipientAddress,
+      amount,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      feePayerVaultAccountId,
+      amountUnit,
+    } = req.body;
+    if (!recipientAddress || !amount) {
+      res.status(400).json({
+        error: "Bad Request : recipientAddress and amount are required",
+      });
+      return;
+    }
+    if (!isValidAccountAddress(recipientAddress)) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    const simulation = await apiService.executeAction(
+      vaultId,
+      ActionType.SIMULATE_MOVE_TRANSACTION,
+      {
+        recipientAddress,
+        amount,
+        maxGasAmount,
+        gasUnitPrice,
+        expireTimestamp,
+        accountSequenceNumber,
+        feePayerVaultAccountId,
+        amountUnit,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(simulation);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /:vaultId/transfer/token/simulate
+export const simulateTokenTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      recipientAddress,
+      amount,
+      tokenType,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      feePayerVaultAccountId,
+      amountUnit,
+    } = req.body;
+    if (!recipientAddress || !amount || !tokenType) {
+      res.status(400).json({
+        error:
+          "Bad Request : recipientAddress, amount & tokenType are required",
+      });
+      return;
+    }
+    if (!isValidAccountAddress(recipientAddress)) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (!isValidAccountAddress(tokenType)) {
+      res.status(400).json({ error: invalidTokenTypeError });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    const simulation = await apiService.executeAction(
+      vaultId,
+      ActionType.SIMULATE_TOKEN_TRANSACTION,
+      {
+        recipientAddress,
+        amount,
+        tokenType,
+        maxGasAmount,
+        gasUnitPrice,
+        expireTimestamp,
+        accountSequenceNumber,
+        feePayerVaultAccountId,
+        amountUnit,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(simulation);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /:vaultId/fees/estimate
+export const estimateFees: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      transactionType = TransactionType.MOVE,
+      recipientAddress,
+      amount,
+      tokenType,
+      amountUnit,
+      gasPriority,
+      maxFee,
+      feePayerVaultAccountId,
+    } = req.query as Record<string, string | undefined>;
+    if (
+      transactionType !== TransactionType.MOVE &&
+      transactionType !== TransactionType.TOKEN
+    ) {
+      res.status(400).json({
+        error: `Bad Request : transactionType must be ${TransactionType.MOVE} or ${TransactionType.TOKEN}`,
+      });
+      return;
+    }
+    if (!recipientAddress || !amount) {
+      res.status(400).json({
+        error: "Bad Request : recipientAddress and amount are required",
+      });
+      return;
+    }
+    if (!isValidAccountAddress(recipientAddress)) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (transactionType === TransactionType.TOKEN && !tokenType) {
+      res.status(400).json({
+        error: "Bad Request : tokenType is required for token transactions",
+      });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    const { gasPricingPolicy, error } = parseGasPricingPolicy(
+      gasPriority,
+      maxFee
+    );
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const estimate = await apiService.executeAction(
+      vaultId,
+      ActionType.ESTIMATE_FEES,
+      {
+        transactionType,
+        recipientAddress,
+        amount,
+        tokenType,
+        amountUnit,
+        feePayerVaultAccountId,
+        gasPricingPolicy,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(estimate);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /:vaultId/transfer/batch
+export const createBatchTransfers: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      transfers,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      note,
+      customerRefId,
+    } = req.body;
+    if (
+      !Array.isArray(transfers) ||
+      transfers.length === 0 ||
+      transfers.length > batchTransferConstants.maxTransfers
+    ) {
+      res.status(400).json({
+        error: `Bad Request : transfers must be an array of 1 to ${batchTransferConstants.maxTransfers} transfers`,
+      });
+      return;
+    }
+    const invalidIndex = transfers.findIndex(
+      (transfer: any) => !transfer?.recipientAddress || !transfer?.amount
+    );
+    if (invalidIndex !== -1) {
+      res.status(400).json({
+        error: `Bad Request : recipientAddress and amount are required for transfer ${invalidIndex}`,
+      });
+      return;
+    }
+    const invalidAddressIndex = transfers.findIndex(
+      (transfer: any) =>
+        !isValidAccountAddress(transfer.recipientAddress) ||
+        (transfer.tokenType !== undefined &&
+          !isValidAccountAddress(transfer.tokenType))
+    );
+    if (invalidAddressIndex !== -1) {
+      res.status(400).json({
+        error: `Bad Request : recipientAddress and tokenType must be ${accountAddressFormat} for transfer ${invalidAddressIndex}`,
+      });
+      return;
+    }
+    if (
+      !transfers.every((transfer: any) =>
+        isValidAmountUnit(transfer.amountUnit)
+      )
+    ) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidSigningRequestDetails(note, customerRefId)) {
+      res.status(400).json({ error: invalidSigningRequestDetailsError });
+      return;
+    }
+    const { idempotencyKey, error: idempotencyKeyError } =
+      getIdempotencyKey(req);
+    if (idempotencyKeyError) {
+      res.status(400).json({ error: idempotencyKeyError });
+      return;
+    }
+    const results = await apiService.executeAction(
+      vaultId,
+      ActionType.CREATE_BATCH_TRANSFERS,
+      {
+        transfers: transfers.map((transfer: any) => ({
+          recipientAddress: transfer.recipientAddress,
+          amount: transfer.amount,
+          tokenType: transfer.tokenType,
+          amountUnit: transfer.amountUnit,
+        })),
+        maxGasAmount,
+        gasUnitPrice,
+        expireTimestamp,
+        note,
+        customerRefId,
+        idempotencyKey,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(results);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// POST /:vaultId/transactions/entry-function
+export const callEntryFunction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      function: functionId,
+      typeArguments,
+      functionArguments,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      note,
+      customerRefId,
+    } = req.body;
+    if (typeof functionId !== "string" || functionId.split("::").length !== 3) {
+      res.status(400).json({
+        error:
+          "Bad Request : function is required in the form <address>::<module>::<function>",
+      });
+      return;
+    }
+    if (
+      (typeArguments !== undefined && !Array.isArray(typeArguments)) ||
+      (functionArguments !== undefined && !Array.isArray(functionArguments))
+    ) {
+      res.status(400).json({
+        error:
+          "Bad Request : typeArguments and functionArguments must be arrays",
+      });
+      return;
+    }
+    if (!isValidSigningRequestDetails(note, customerRefId)) {
+      res.status(400).json({ error: invalidSigningRequestDetailsError });
+      return;
+    }
+    const tx = await apiService.executeAction(
+      vaultId,
+      ActionType.CALL_ENTRY_FUNCTION,
+      {
+        function: functionId,
+        typeArguments,
+        functionArguments,
+        maxGasAmount,
+        gasUnitPrice,
+        expireTimestamp,
+        accountSequenceNumber,
+        note,
+        customerRefId,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    setTransferIdHeader(res, tx as TransferResponse);
+    res.json(tx);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /:vaultId/transfers/prepare
+export const prepareTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId } = req.params;
+    const {
+      transactionType,
+      recipientAddress,
+      amount,
+      tokenType,
+      function: functionId,
+      typeArguments,
+      functionArguments,
+      maxGasAmount,
+      gasUnitPrice,
+      expireTimestamp,
+      accountSequenceNumber,
+      simulate,
+      feePayerVaultAccountId,
+      amountUnit,
+      note,
+      customerRefId,
+    } = req.body;
+    if (!Object.values(TransactionType).includes(transactionType)) {
+      res.status(400).json({
+        error: `Bad Request : transactionType must be one of ${Object.values(
+          TransactionType
+        ).join(", ")}`,
+      });
+      return;
+    }
+    if (
+      transactionType !== TransactionType.ENTRY_FUNCTION &&
+      (!recipientAddress || !amount)
+    ) {
+      res.status(400).json({
+        error: "Bad Request : recipientAddress and amount are required",
+      });
+      return;
+    }
+    if (
+      transactionType !== TransactionType.ENTRY_FUNCTION &&
+      !isValidAccountAddress(recipientAddress)
+    ) {
+      res.status(400).json({ error: invalidRecipientAddressError });
+      return;
+    }
+    if (transactionType === TransactionType.TOKEN && !tokenType) {
+      res.status(400).json({
+        error: "Bad Request : tokenType is required for token transactions",
+      });
+      return;
+    }
+    if (
+      transactionType === TransactionType.ENTRY_FUNCTION &&
+      (typeof functionId !== "string" || functionId.split("::").length !== 3)
+    ) {
+      res.status(400).json({
+        error:
+          "Bad Request : function is required in the form <address>::<module>::<function>",
+      });
+      return;
+    }
+    if (!isValidAmountUnit(amountUnit)) {
+      res.status(400).json({ error: invalidAmountUnitError });
+      return;
+    }
+    if (!isValidFeePayerVaultAccountId(feePayerVaultAccountId)) {
+      res.status(400).json({ error: invalidFeePayerVaultAccountIdError });
+      return;
+    }
+    if (!isValidSigningRequestDetails(note, customerRefId)) {
+      res.status(400).json({ error: invalidSigningRequestDetailsError });
+      return;
+    }
+    const { idempotencyKey, error: idempotencyKeyError } =
+      getIdempotencyKey(req);
+    if (idempotencyKeyError) {
+      res.status(400).json({ error: idempotencyKeyError });
+      return;
+    }
+    const record = (await apiService.executeAction(
+      vaultId,
+      ActionType.PREPARE_TRANSACTION,
+      {
+        transactionType,
+        recipientAddress,
+        amount,
+        tokenType,
+        function: functionId,
+        typeArguments,
+        functionArguments,
+        maxGasAmount,
+        gasUnitPrice,
+        expireTimestamp,
+        accountSequenceNumber,
+        simulate,
+        feePayerVaultAccountId,
+        amountUnit,
+        idempotencyKey,
+        note,
+        customerRefId,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    )) as TransactionRecord;
+    res
+      .status(202)
+      .location(`${getVaultPath(req)}/transfers/${record.id}`)
+      .json(record);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// POST /:vaultId/transfers/:id/sign
+export const signPreparedTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId, id } = req.params;
+    const signingTimeoutMs = req.body?.signingTimeoutMs;
+    if (!isValidSigningTimeout(signingTimeoutMs)) {
+      res.status(400).json({ error: invalidSigningTimeoutError });
+      return;
+    }
+    const record = await apiService.executeAction(
+      vaultId,
+      ActionType.SIGN_PREPARED_TRANSACTION,
+      {
+        id,
+        signingTimeoutMs:
+          signingTimeoutMs !== undefined ? Number(signingTimeoutMs) : undefined,
+      },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res
+      .status(202)
+      .location(`${getVaultPath(req)}/transfers/${id}`)
+      .json(record);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// POST /:vaultId/transfers/:id/submit
+export const submitSignedTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId, id } = req.params;
+    const record = await apiService.executeAction(
+      vaultId,
+      ActionType.SUBMIT_SIGNED_TRANSACTION,
+      { id },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res
+      .status(202)
+      .location(`${getVaultPath(req)}/transfers/${id}`)
+      .json(record);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// POST /:vaultId/transfers/:id/cancel
+export const cancelTransaction: Handler = async (req, res, next) => {
+  try {
+    const { vaultId, id } = req.params;
+    const record = await apiService.executeAction(
+      vaultId,
+      ActionType.CANCEL_TRANSACTION,
+      { id },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    res.json(record);
+  } catch (err) {
+    handleTransactionError(err, res, next);
+  }
+};
+
+// GET /:vaultId/transfers/:id
+export const getTransactionStatus: Handler = async (req, res, next) => {
+  try {
+    const { vaultId, id } = req.params;
+    const record = await apiService.executeAction(
+      vaultId,
+      ActionType.GET_TRANSACTION_STATUS,
+      { id },
+      getNetwork(req),
+      getAddressIndex(req)
+    );
+    if (!record) {
+      res.status(404).json({ error: `Transaction ${id} not found` });
+      return;
+    }
+    res.json(record);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /sweeps
+export const createSweep: Handler = async (req, res, next) => {
+  try {
+    const error = validateSweepRequest(req.body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const {
+      vaultAccountIds,
+      vaultAccountIdRange,
+      targetAddress,
+      minimumBalances,
+      gasReserve,
+      feePayerVaultAccountId,
+      concurrency,
+    } = req.body;
+    const job = await apiService.createSweep({
+      vaultAccountIds: vaultAccountIds?.map(String),
+      vaultAccountIdRange,
+      targetAddress,
+      minimumBalances,
+      gasReserve,
+      feePayerVaultAccountId:
+        feePayerVaultAccountId !== undefined
+          ? String(feePayerVaultAccountId)
+          : undefined,
+      concurrency,
+      network: getNetwork(req),
+    });
+    res.status(202).location(`${req.baseUrl}/sweeps/${job.id}`).json(job);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /sweeps/:id
+export const getSweep: Handler = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const job = await apiService.getSweep(id);
+    if (!job) {
+      res.status(404).json({ error: `Sweep ${id} not found` });
+      return;
+    }
+    res.json(job);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /vaults
+export const createVault: Handler = async (req, res, next) => {
+  try {
+    const { name, customerRefId, hiddenOnUI } = req.body ?? {};
+    if (
+      typeof name !== "string" ||
+      name.trim() === "" ||
+      name.length > vaultProvisioningConstants.maxNameLength
+    ) {
+      res.status(400).json({
+        error: `Bad Request : name must be a non-empty string of at most ${vaultProvisioningConstants.maxNameLength} characters`,
+      });
+      return;
+    }
+    if (!isValidSigningRequestDetails(undefined, customerRefId)) {
+      res.status(400).json({
+        error: "Bad Request : customerRefId must be a non-empty string",
+      });
+      return;
+    }
+    if (hiddenOnUI !== undefined && typeof hiddenOnUI !== "boolean") {
+      res
+        .status(400)
+        .json({ error: "Bad Request : hiddenOnUI must be a boolean" });
+      return;
+    }
+    const { idempotencyKey, error: idempotencyKeyError } =
+      getIdempotencyKey(req);
+    if (idempotencyKeyError) {
+      res.status(400).json({ error: idempotencyKeyError });
+      return;
+    }
+    const vault = await apiService.createVault(
+      { name, customerRefId, hiddenOnUI },
+      idempotencyKey
+    );
+    res
+      .status(201)
+      .location(`${req.baseUrl}/${vault.vaultAccountId}/address`)
+      .json(vault);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /vaults
+export const listVaults: Handler = async (req, res, next) => {
+  try {
+    const {
+      namePrefix,
+      limit = vaultProvisioningConstants.defaultListLimit,
+      before,
+      after,
+    } = req.query;
+    if (
+      !isWholeNumber(limit) ||
+      Number(limit) < 1 ||
+      Number(limit) > vaultProvisioningConstants.maxListLimit
+    ) {
+      res.status(400).json({
+        error: `Bad Request : limit must be an integer between 1 and ${vaultProvisioningConstants.maxListLimit}`,
+      });
+      return;
+    }
+    if (
+      [namePrefix, before, after].some(
+        (value) => value !== undefined && typeof value !== "string"
+      )
+    ) {
+      res.status(400).json({
+        error:
+          "Bad Request : namePrefix, before and after must be single values",
+      });
+      return;
+    }
+    const page = await apiService.listVaults({
+      namePrefix: namePrefix as string | undefined,
+      limit: Number(limit),
+      before: before as string | undefined,
+      after: after as string | undefined,
+    });
+    res.json(page);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /health
+export const getHealth: Handler = async (req, res, next) => {
+  try {
+    const health = await apiService.getHealth();
+    res.status(health.healthy ? 200 : 503).json(health);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /webhooks/fireblocks
+export const handleFireblocksWebhook: Handler = async (req, res, next) => {
+  try {
+    if (!apiService.isWebhookEnabled()) {
+      res
+        .status(404)
+        .json({ error: "Fireblocks webhook receiver is not configured" });
+      return;
+    }
+    // The signature covers the body exactly as sent, kept by the JSON parser in server.ts
+    const { rawBody } = req;
+    if (!rawBody) {
+      res.status(400).json({ error: "Bad Request : missing request body" });
+      return;
+    }
+    const verified = apiService.handleWebhook(
+      rawBody,
+      req.get(webhookConstants.signatureHeader),
+      req.body
+    );
+    if (!verified) {
+      res.status(401).json({ error: "Invalid webhook signature" });
+      return;
+    }
+    res.status(200).json({ received: true });
   } catch (err) {
     next(err);
   }
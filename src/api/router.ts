@@ -1,26 +1,60 @@
 import { Router, Request, Response, NextFunction } from "express";
 import * as controller from "./controller";
+import { addressIndexConstants, networkHeader } from "../constants";
+import { MovementNetwork } from "../services/types";
+import { isMovementNetwork } from "../utils/network.utils";
 
-// Middleware to validate vaultAccountId parameter
+// Middleware to validate vaultAccountId parameter and the optional address index
 const validateVaultId = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const { vaultId } = req.params;
+  const { vaultId, index } = req.params;
   if (!vaultId) {
     res
       .status(400)
       .json({ error: "vaultAccountId (vaultId) parameter is required" });
     return;
   }
+  if (
+    index !== undefined &&
+    (!/^\d+$/.test(index) || Number(index) > addressIndexConstants.maxIndex)
+  ) {
+    res.status(400).json({
+      error: `Bad Request : address index must be an integer between 0 and ${addressIndexConstants.maxIndex}`,
+    });
+    return;
+  }
+  next();
+};
+
+// Middleware to validate the optional network header
+const validateNetwork = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const network = req.get(networkHeader);
+  if (network && !isMovementNetwork(network)) {
+    res.status(400).json({
+      error: `Bad Request : ${networkHeader} must be one of ${Object.values(
+        MovementNetwork
+      ).join(", ")}`,
+    });
+    return;
+  }
   next();
 };
 
 const router = Router();
 
+router.use(validateNetwork);
+
 // Use JSON body parser in your app setup (e.g., app.use(express.json()))
 
+// Every /:vaultId route also serves the other addresses of the vault under /:vaultId/addresses/:index
+
 // Account endpoints
 /**
  * @openapi
@@ -30,6 +64,33 @@ const router = Router();
  *     description: Retrieves the Aptos/Movement account address for the given vault ID.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *     responses:
+ *       200:
+ *         description: Address fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 address:
+ *                   type: string
+ *                   example: '0x1a2b3c4d'
+ *       400:
+ *         description: vaultId missing
+ *       500:
+ *         description: Internal server error
+ */
+/**
+ * @openapi
+ * /{vaultId}/addresses/{index}/address:
+ *   get:
+ *     summary: Get the on-chain address of a vault address index
+ *     description: Retrieves the account address at the given address index of the vault. Every /{vaultId} route is also available under /{vaultId}/addresses/{index} to use that address, e.g. to transfer from it.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/addressIndex'
+ *       - $ref: '#/components/parameters/network'
  *     responses:
  *       200:
  *         description: Address fetched successfully
@@ -42,11 +103,171 @@ const router = Router();
  *                   type: string
  *                   example: '0x1a2b3c4d'
  *       400:
+ *         description: vaultId missing or invalid address index
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:vaultId{/addresses/:index}/address",
+  validateVaultId,
+  controller.getAddress
+);
+
+/**
+ * @openapi
+ * /{vaultId}/account:
+ *   get:
+ *     summary: Get on-chain account status
+ *     description: Checks that the account exists and that its on-chain authentication key still matches the key derived from the vault's Fireblocks public key. Transfers are refused while the keys differ, e.g. after a key rotation.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *     responses:
+ *       200:
+ *         description: Account status fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 address:
+ *                   type: string
+ *                   example: '0x1a2b3c4d'
+ *                 exists:
+ *                   type: boolean
+ *                   example: true
+ *                 sequenceNumber:
+ *                   type: string
+ *                   description: Unset while the account does not exist
+ *                   example: '12'
+ *                 authenticationKey:
+ *                   type: string
+ *                   description: On-chain authentication key, unset while the account does not exist
+ *                   example: '0x1a2b3c4d'
+ *                 expectedAuthenticationKey:
+ *                   type: string
+ *                   description: Authentication key derived from the Fireblocks public key
+ *                   example: '0x1a2b3c4d'
+ *                 authenticationKeyMatches:
+ *                   type: boolean
+ *                   example: true
+ *       400:
  *         description: vaultId missing
  *       500:
  *         description: Internal server error
  */
-router.get("/:vaultId/address", validateVaultId, controller.getAddress);
+router.get(
+  "/:vaultId{/addresses/:index}/account",
+  validateVaultId,
+  controller.getAccount
+);
+
+/**
+ * @openapi
+ * /{vaultId}/recipients/{address}:
+ *   get:
+ *     summary: Check a transfer recipient
+ *     description: Reports whether the recipient account exists and whether it can receive MOVE or the given fungible asset from the vault. Transfers to the vault itself and to 0x0 or framework addresses are refused by default, and so are fungible asset transfers to a frozen store.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recipient address, 0x followed by 64 hex characters, or 0x0 to 0xf for special addresses.
+ *       - in: query
+ *         name: tokenType
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Fungible asset metadata address; MOVE is checked without it.
+ *       - $ref: '#/components/parameters/network'
+ *     responses:
+ *       200:
+ *         description: Recipient checked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 address:
+ *                   type: string
+ *                   description: Long form of the recipient address
+ *                   example: '0x000000000000000000000000000000000000000000000000000000001a2b3c4d'
+ *                 exists:
+ *                   type: boolean
+ *                   example: true
+ *                 canReceive:
+ *                   type: boolean
+ *                   example: false
+ *                 reason:
+ *                   type: string
+ *                   description: Why the recipient cannot receive the transfer
+ *                   example: transfers to the sending account are blocked
+ *       400:
+ *         description: Invalid address or tokenType
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:vaultId{/addresses/:index}/recipients/:address",
+  validateVaultId,
+  controller.checkRecipient
+);
+
+/**
+ * @openapi
+ * /{vaultId}/addresses:
+ *   get:
+ *     summary: List vault addresses
+ *     description: Derives consecutive Movement addresses of the vault, one per address index of the derivation path [44, 637, vaultId, 0, index]. Each address is served by the /{vaultId}/addresses/{index} routes.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         description: Number of addresses to derive
+ *       - in: query
+ *         name: startIndex
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *         description: Address index of the first address
+ *     responses:
+ *       200:
+ *         description: Addresses derived successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 addresses:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       addressIndex:
+ *                         type: integer
+ *                         example: 0
+ *                       address:
+ *                         type: string
+ *                         example: '0x1a2b3c4d'
+ *                       publicKey:
+ *                         type: string
+ *                         example: 'abcdef12345'
+ *       400:
+ *         description: Invalid count or startIndex
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:vaultId/addresses", validateVaultId, controller.getAddresses);
 
 /**
  * @openapi
@@ -56,6 +277,7 @@ router.get("/:vaultId/address", validateVaultId, controller.getAddress);
  *     description: Retrieves the public key for the given vault ID.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
  *     responses:
  *       200:
  *         description: Public key fetched successfully
@@ -72,7 +294,11 @@ router.get("/:vaultId/address", validateVaultId, controller.getAddress);
  *       500:
  *         description: Internal server error
  */
-router.get("/:vaultId/publicKey", validateVaultId, controller.getPublicKey);
+router.get(
+  "/:vaultId{/addresses/:index}/publicKey",
+  validateVaultId,
+  controller.getPublicKey
+);
 
 // Balance endpoints
 
@@ -84,6 +310,7 @@ router.get("/:vaultId/publicKey", validateVaultId, controller.getPublicKey);
  *     description: Retrieves the balance of the native coin for the address of the vault ID.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
  *     responses:
  *       200:
  *         description: Balance fetched successfully
@@ -92,7 +319,11 @@ router.get("/:vaultId/publicKey", validateVaultId, controller.getPublicKey);
  *       500:
  *         description: Internal server error
  */
-router.get("/:vaultId/balance", validateVaultId, controller.getBalance);
+router.get(
+  "/:vaultId{/addresses/:index}/balance",
+  validateVaultId,
+  controller.getBalance
+);
 
 /**
  * @openapi
@@ -102,6 +333,7 @@ router.get("/:vaultId/balance", validateVaultId, controller.getBalance);
  *     description: Retrieves balances of all assets for the the address of the vault ID.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
  *     responses:
  *       200:
  *         description: Balances fetched successfully
@@ -110,7 +342,11 @@ router.get("/:vaultId/balance", validateVaultId, controller.getBalance);
  *       500:
  *         description: Internal server error
  */
-router.get("/:vaultId/balances", validateVaultId, controller.getBalances);
+router.get(
+  "/:vaultId{/addresses/:index}/balances",
+  validateVaultId,
+  controller.getBalances
+);
 
 /**
  * @openapi
@@ -120,6 +356,7 @@ router.get("/:vaultId/balances", validateVaultId, controller.getBalances);
  *     description: Retrieves detailed coin data (decimals, frozen status, etc.) for the vault.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
  *     responses:
  *       200:
  *         description: Coins data fetched successfully
@@ -128,7 +365,11 @@ router.get("/:vaultId/balances", validateVaultId, controller.getBalances);
  *       500:
  *         description: Internal server error
  */
-router.get("/:vaultId/coins_data", validateVaultId, controller.getCoinsData);
+router.get(
+  "/:vaultId{/addresses/:index}/coins_data",
+  validateVaultId,
+  controller.getCoinsData
+);
 
 // Transaction history
 /**
@@ -139,6 +380,7 @@ router.get("/:vaultId/coins_data", validateVaultId, controller.getCoinsData);
  *     description: Retrieves historical transactions for the vault, supporting pagination and cache control.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
  *       - in: query
  *         name: limit
  *         required: false
@@ -169,11 +411,83 @@ router.get("/:vaultId/coins_data", validateVaultId, controller.getCoinsData);
  *         description: Internal server error
  */
 router.get(
-  "/:vaultId/transactions",
+  "/:vaultId{/addresses/:index}/transactions",
   validateVaultId,
   controller.getTransactionsHistory
 );
 
+/**
+ * @openapi
+ * /{vaultId}/fees/estimate:
+ *   get:
+ *     summary: Estimate transfer fees
+ *     description: Estimates the gas price, gas limit and fee of a native coin or token transfer using the fullnode gas price estimate and a simulation of the transfer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: query
+ *         name: transactionType
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [move, token]
+ *           default: move
+ *       - in: query
+ *         name: recipientAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: amount
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: amountUnit
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [base, decimal]
+ *           default: base
+ *       - in: query
+ *         name: tokenType
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Required for token transfers.
+ *       - in: query
+ *         name: gasPriority
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [low, market, prioritized]
+ *           default: market
+ *       - in: query
+ *         name: maxFee
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Cap on the total gas fee in octas.
+ *       - in: query
+ *         name: feePayerVaultAccountId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Fireblocks vault account ID that sponsors the gas fees.
+ *     responses:
+ *       '200':
+ *         description: Fee estimate with gas unit price, gas used, max gas amount, estimated and maximum fee in octas
+ *       '400':
+ *         description: Invalid input
+ *       '500':
+ *         description: Internal server error
+ */
+router.get(
+  "/:vaultId{/addresses/:index}/fees/estimate",
+  validateVaultId,
+  controller.estimateFees
+);
+
 // Create transactions
 /**
  * @openapi
@@ -183,6 +497,8 @@ router.get(
  *     description: Initiates transfer of native Aptos coin from vault to recipient.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - $ref: '#/components/parameters/idempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -195,8 +511,15 @@ router.get(
  *                 type: string
  *                 example: '0xabc123'
  *               amount:
- *                 type: number
- *                 example: 1.5
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: number
+ *                 description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision. Pass "max" to send the whole balance minus the maximum gas fee and reserveAmount; the unused gas is refunded to the account.
+ *                 example: '150000000'
+ *               amountUnit:
+ *                 type: string
+ *                 enum: [base, decimal]
+ *                 default: base
  *               maxGasAmount:
  *                 type: number
  *                 example: 1000
@@ -209,16 +532,54 @@ router.get(
  *               accountSequenceNumber:
  *                 type: number
  *                 example: 42
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Fireblocks vault account ID that sponsors the gas fees.
+ *                 example: '1'
+ *               simulate:
+ *                 type: boolean
+ *                 description: Simulate the transaction first and abort before signing if it would fail.
+ *                 example: true
+ *               gasPriority:
+ *                 type: string
+ *                 enum: [low, market, prioritized]
+ *                 description: Price gas from the fullnode estimate when maxGasAmount and gasUnitPrice are omitted.
+ *               maxFee:
+ *                 type: string
+ *                 description: Abort if the estimated gas fee in octas exceeds this cap.
+ *               reserveAmount:
+ *                 type: string
+ *                 description: Octas kept in the account when amount is "max", on top of the refunded unused gas.
+ *                 example: '100000'
+ *               signingTimeoutMs:
+ *                 type: integer
+ *                 description: Cancel the Fireblocks signing request and fail with 504 if it is still pending after this many milliseconds.
+ *                 example: 600000
+ *               note:
+ *                 type: string
+ *                 description: Note of the Fireblocks signing request. Generated from the transaction (function, recipient, amount, network and sequence number) when omitted.
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the Fireblocks signing request.
  *     responses:
  *       200:
- *         description: Transaction created successfully
+ *         description: Transaction created successfully. The body and the X-Transfer-Id header carry the ID of the transaction's status resource.
+ *         headers:
+ *           X-Transfer-Id:
+ *             schema:
+ *               type: string
+ *             description: ID for GET /{vaultId}/transfers/{id}
  *       400:
  *         description: Invalid input
+ *       422:
+ *         description: Idempotency key was already used for another request
  *       500:
  *         description: Internal server error
+ *       504:
+ *         description: Signing timed out, the Fireblocks signing request was cancelled
  */
 router.post(
-  "/:vaultId/transfer/move",
+  "/:vaultId{/addresses/:index}/transfer/move",
   validateVaultId,
   controller.createMoveTransaction
 );
@@ -231,6 +592,8 @@ router.post(
  *     description: Initiates transfer of a token asset from vault to recipient.
  *     parameters:
  *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - $ref: '#/components/parameters/idempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -243,8 +606,15 @@ router.post(
  *                 type: string
  *                 example: '0xdef456'
  *               amount:
- *                 type: number
- *                 example: 10
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: number
+ *                 description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision.
+ *                 example: '10000000'
+ *               amountUnit:
+ *                 type: string
+ *                 enum: [base, decimal]
+ *                 default: base
  *               tokenType:
  *                 type: string
  *                 example: '0x1::aptos_coin::AptosCoin'
@@ -260,33 +630,781 @@ router.post(
  *               accountSequenceNumber:
  *                 type: number
  *                 example: 42
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Fireblocks vault account ID that sponsors the gas fees.
+ *                 example: '1'
+ *               simulate:
+ *                 type: boolean
+ *                 description: Simulate the transaction first and abort before signing if it would fail.
+ *                 example: true
+ *               gasPriority:
+ *                 type: string
+ *                 enum: [low, market, prioritized]
+ *                 description: Price gas from the fullnode estimate when maxGasAmount and gasUnitPrice are omitted.
+ *               maxFee:
+ *                 type: string
+ *                 description: Abort if the estimated gas fee in octas exceeds this cap.
+ *               signingTimeoutMs:
+ *                 type: integer
+ *                 description: Cancel the Fireblocks signing request and fail with 504 if it is still pending after this many milliseconds.
+ *                 example: 600000
+ *               note:
+ *                 type: string
+ *                 description: Note of the Fireblocks signing request. Generated from the transaction (function, recipient, amount, network and sequence number) when omitted.
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the Fireblocks signing request.
  *     responses:
  *       200:
- *         description: Token transaction created successfully
+ *         description: Token transaction created successfully. The body and the X-Transfer-Id header carry the ID of the transaction's status resource.
+ *         headers:
+ *           X-Transfer-Id:
+ *             schema:
+ *               type: string
+ *             description: ID for GET /{vaultId}/transfers/{id}
  *       400:
  *         description: Invalid input
+ *       422:
+ *         description: Idempotency key was already used for another request
  *       500:
  *         description: Internal server error
+ *       504:
+ *         description: Signing timed out, the Fireblocks signing request was cancelled
  */
 router.post(
-  "/:vaultId/transfer/token",
+  "/:vaultId{/addresses/:index}/transfer/token",
   validateVaultId,
   controller.createTokenTransaction
 );
 
-// Pool metrics
 /**
  * @openapi
- * /metrics:
- *   get:
- *     summary: Get SDK pool metrics
- *     description: Retrieves metrics for the Fireblocks SDK connection pool.
+ * /{vaultId}/transfer/move/simulate:
+ *   post:
+ *     summary: Simulate native coin transfer
+ *     description: Builds a native coin transfer and simulates it on the fullnode without signing it, returning VM status, gas used and balance changes.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [recipientAddress, amount]
+ *             properties:
+ *               recipientAddress:
+ *                 type: string
+ *                 example: '0xabc123'
+ *               amount:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: number
+ *                 description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision.
+ *                 example: '150000000'
+ *               amountUnit:
+ *                 type: string
+ *                 enum: [base, decimal]
+ *                 default: base
+ *               maxGasAmount:
+ *                 type: number
+ *                 example: 1000
+ *               gasUnitPrice:
+ *                 type: number
+ *                 example: 1
+ *               expireTimestamp:
+ *                 type: number
+ *                 example: 1625097600
+ *               accountSequenceNumber:
+ *                 type: number
+ *                 example: 42
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Fireblocks vault account ID that sponsors the gas fees.
+ *                 example: '1'
  *     responses:
  *       200:
- *         description: Metrics fetched successfully
+ *         description: Simulation result
+ *       400:
+ *         description: Invalid input
  *       500:
  *         description: Internal server error
  */
-router.get("/metrics", controller.getPoolMetrics);
+router.post(
+  "/:vaultId{/addresses/:index}/transfer/move/simulate",
+  validateVaultId,
+  controller.simulateMoveTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfer/token/simulate:
+ *   post:
+ *     summary: Simulate token transfer
+ *     description: Builds a token transfer and simulates it on the fullnode without signing it, returning VM status, gas used and balance changes.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [recipientAddress, amount, tokenType]
+ *             properties:
+ *               recipientAddress:
+ *                 type: string
+ *                 example: '0xdef456'
+ *               amount:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: number
+ *                 description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision.
+ *                 example: '10000000'
+ *               amountUnit:
+ *                 type: string
+ *                 enum: [base, decimal]
+ *                 default: base
+ *               tokenType:
+ *                 type: string
+ *                 example: '0x1::aptos_coin::AptosCoin'
+ *               maxGasAmount:
+ *                 type: number
+ *                 example: 1000
+ *               gasUnitPrice:
+ *                 type: number
+ *                 example: 1
+ *               expireTimestamp:
+ *                 type: number
+ *                 example: 1625097600
+ *               accountSequenceNumber:
+ *                 type: number
+ *                 example: 42
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Fireblocks vault account ID that sponsors the gas fees.
+ *                 example: '1'
+ *     responses:
+ *       200:
+ *         description: Simulation result
+ *       400:
+ *         description: Invalid input
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfer/token/simulate",
+  validateVaultId,
+  controller.simulateTokenTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfer/batch:
+ *   post:
+ *     summary: Create batch transfer
+ *     description: Sends several native coin and token transfers from the vault with consecutive sequence numbers. All transfers are signed through one Fireblocks RAW signing request, so they need a single approval. Returns one result per transfer.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - $ref: '#/components/parameters/idempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [transfers]
+ *             properties:
+ *               transfers:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: object
+ *                   required: [recipientAddress, amount]
+ *                   properties:
+ *                     recipientAddress:
+ *                       type: string
+ *                       example: '0xabc123'
+ *                     amount:
+ *                       oneOf:
+ *                         - type: string
+ *                         - type: number
+ *                       description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision.
+ *                       example: '150000000'
+ *                     amountUnit:
+ *                       type: string
+ *                       enum: [base, decimal]
+ *                       default: base
+ *                     tokenType:
+ *                       type: string
+ *                       description: Token to transfer, native coin when omitted.
+ *                       example: '0x1::aptos_coin::AptosCoin'
+ *               maxGasAmount:
+ *                 type: number
+ *                 example: 1000
+ *               gasUnitPrice:
+ *                 type: number
+ *                 example: 1
+ *               expireTimestamp:
+ *                 type: number
+ *                 example: 1625097600
+ *               note:
+ *                 type: string
+ *                 description: Note of the Fireblocks signing request. Generated from the transaction (function, recipient, amount, network and sequence number) when omitted.
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the Fireblocks signing request.
+ *     responses:
+ *       200:
+ *         description: Per-transfer results with success flag, sequence number, transfer ID, transaction hash and error
+ *       400:
+ *         description: Invalid input
+ *       422:
+ *         description: Idempotency key was already used for another request
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfer/batch",
+  validateVaultId,
+  controller.createBatchTransfers
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transactions/entry-function:
+ *   post:
+ *     summary: Call a Move entry function
+ *     description: Builds, signs via Fireblocks and submits a transaction calling any Move entry function from the vault's account.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [function]
+ *             properties:
+ *               function:
+ *                 type: string
+ *                 example: '0x1::aptos_account::transfer'
+ *               typeArguments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: []
+ *               functionArguments:
+ *                 type: array
+ *                 items: {}
+ *                 example: ['0xabc123', '100000000']
+ *               maxGasAmount:
+ *                 type: number
+ *                 example: 1000
+ *               gasUnitPrice:
+ *                 type: number
+ *                 example: 100
+ *               expireTimestamp:
+ *                 type: number
+ *                 example: 1625097600
+ *               accountSequenceNumber:
+ *                 type: number
+ *                 example: 42
+ *               note:
+ *                 type: string
+ *                 description: Note of the Fireblocks signing request. Generated from the transaction (function, recipient, amount, network and sequence number) when omitted.
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the Fireblocks signing request.
+ *     responses:
+ *       200:
+ *         description: Entry function transaction committed successfully
+ *       400:
+ *         description: Invalid input
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transactions/entry-function",
+  validateVaultId,
+  controller.callEntryFunction
+);
+
+// Two-phase transaction lifecycle
+/**
+ * @openapi
+ * /{vaultId}/transfers/prepare:
+ *   post:
+ *     summary: Prepare a transaction
+ *     description: Builds and serializes a MOVE, token or entry function transaction without signing it. Returns the transaction ID and the signing message hex.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - $ref: '#/components/parameters/idempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [transactionType]
+ *             properties:
+ *               transactionType:
+ *                 type: string
+ *                 enum: [move, token, entry_function]
+ *                 example: move
+ *               recipientAddress:
+ *                 type: string
+ *                 example: '0xabc123'
+ *               amount:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: number
+ *                 description: Amount in base units, or in whole tokens when amountUnit is decimal. Pass large amounts as strings to keep their precision.
+ *                 example: '100000000'
+ *               amountUnit:
+ *                 type: string
+ *                 enum: [base, decimal]
+ *                 default: base
+ *               tokenType:
+ *                 type: string
+ *                 example: '0x1::aptos_coin::AptosCoin'
+ *               function:
+ *                 type: string
+ *                 example: '0x1::aptos_account::transfer'
+ *               typeArguments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               functionArguments:
+ *                 type: array
+ *                 items: {}
+ *               maxGasAmount:
+ *                 type: number
+ *                 example: 1000
+ *               gasUnitPrice:
+ *                 type: number
+ *                 example: 100
+ *               expireTimestamp:
+ *                 type: number
+ *                 example: 1625097600
+ *               accountSequenceNumber:
+ *                 type: number
+ *                 example: 42
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Fireblocks vault account ID that sponsors the gas fees and signs the transaction as fee payer.
+ *                 example: '1'
+ *               simulate:
+ *                 type: boolean
+ *                 example: true
+ *               note:
+ *                 type: string
+ *                 description: Note of the Fireblocks signing request. Generated from the transaction (function, recipient, amount, network and sequence number) when omitted.
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the Fireblocks signing request.
+ *     responses:
+ *       202:
+ *         description: Transaction prepared. The Location header points to the status resource.
+ *       400:
+ *         description: Invalid input
+ *       422:
+ *         description: Idempotency key was already used for another request
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfers/prepare",
+  validateVaultId,
+  controller.prepareTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfers/{id}/sign:
+ *   post:
+ *     summary: Sign a prepared transaction
+ *     description: Starts Fireblocks raw signing for a prepared transaction and returns the Fireblocks transaction ID without waiting for approval.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Prepared transaction ID.
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               signingTimeoutMs:
+ *                 type: integer
+ *                 description: Cancel the Fireblocks signing request and mark the transaction cancelled if it is still pending after this many milliseconds.
+ *                 example: 600000
+ *     responses:
+ *       202:
+ *         description: Signing requested. Poll the status resource until the transaction is signed.
+ *       404:
+ *         description: Transaction not found for this vault
+ *       409:
+ *         description: Transaction is not in the prepared state, e.g. it is already being signed, or has expired
+ *       500:
+ *         description: Signing request failed
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfers/:id/sign",
+  validateVaultId,
+  controller.signPreparedTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfers/{id}/submit:
+ *   post:
+ *     summary: Submit a signed transaction
+ *     description: Submits a signed transaction to Movement and returns its hash without waiting for it to be committed.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Prepared transaction ID.
+ *     responses:
+ *       202:
+ *         description: Transaction submitted. Poll the status resource until the transaction is committed.
+ *       404:
+ *         description: Transaction not found for this vault
+ *       409:
+ *         description: Transaction is not signed yet
+ *       500:
+ *         description: Submission failed
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfers/:id/submit",
+  validateVaultId,
+  controller.submitSignedTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfers/{id}/cancel:
+ *   post:
+ *     summary: Cancel a transaction
+ *     description: Cancels a prepared, signing or signed transaction that has not been submitted, e.g. one stuck in Fireblocks approval. A pending Fireblocks signing request is cancelled and the reserved sequence number is released.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transaction ID.
+ *     responses:
+ *       200:
+ *         description: Transaction cancelled
+ *       404:
+ *         description: Transaction not found for this vault
+ *       409:
+ *         description: Transaction was already submitted or settled
+ *       500:
+ *         description: The signing request could not be cancelled
+ */
+router.post(
+  "/:vaultId{/addresses/:index}/transfers/:id/cancel",
+  validateVaultId,
+  controller.cancelTransaction
+);
+
+/**
+ * @openapi
+ * /{vaultId}/transfers/{id}:
+ *   get:
+ *     summary: Get transaction status
+ *     description: Retrieves the lifecycle state (prepared, signing, signed, submitted, committed, failed or cancelled) of a transaction.
+ *     parameters:
+ *       - $ref: '#/components/parameters/vaultId'
+ *       - $ref: '#/components/parameters/network'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Prepared transaction ID.
+ *     responses:
+ *       200:
+ *         description: Transaction status fetched successfully
+ *       404:
+ *         description: Transaction not found for this vault
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:vaultId{/addresses/:index}/transfers/:id",
+  validateVaultId,
+  controller.getTransactionStatus
+);
+
+// Vault provisioning
+/**
+ * @openapi
+ * /vaults:
+ *   post:
+ *     summary: Create a vault
+ *     description: Creates a Fireblocks vault account and returns its Movement address and public key, to onboard a customer in one request.
+ *     parameters:
+ *       - $ref: '#/components/parameters/idempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 'customer-42'
+ *               customerRefId:
+ *                 type: string
+ *                 description: Customer reference ID of the vault, e.g. for AML screening.
+ *                 example: 'cust-42'
+ *               hiddenOnUI:
+ *                 type: boolean
+ *                 description: Hides the vault in the Fireblocks console.
+ *                 example: true
+ *     responses:
+ *       201:
+ *         description: Vault created, the Location header points to its address
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProvisionedVault'
+ *       400:
+ *         description: Invalid name, customerRefId or hiddenOnUI
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List vaults
+ *     description: Lists a page of Fireblocks vault accounts with their Movement addresses and public keys.
+ *     parameters:
+ *       - in: query
+ *         name: namePrefix
+ *         schema:
+ *           type: string
+ *         description: Only vaults whose name starts with this prefix
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of vaults per page
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Cursor of the previous page
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Cursor of the next page
+ *     responses:
+ *       200:
+ *         description: Vaults fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 vaults:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProvisionedVault'
+ *                 before:
+ *                   type: string
+ *                 after:
+ *                   type: string
+ *       400:
+ *         description: Invalid limit or cursor
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/vaults", controller.createVault);
+router.get("/vaults", controller.listVaults);
+
+// Sweeps
+/**
+ * @openapi
+ * /sweeps:
+ *   post:
+ *     summary: Start a sweep
+ *     description: Consolidates the balances of several vaults into a target address. Each vault transfers every listed asset whose balance reaches its minimum, then its MOVE balance minus the gas fee and gasReserve. The job runs in the background and resumes after a restart.
+ *     parameters:
+ *       - $ref: '#/components/parameters/network'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [targetAddress, minimumBalances]
+ *             properties:
+ *               vaultAccountIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ['1', '2', '5']
+ *               vaultAccountIdRange:
+ *                 type: object
+ *                 description: Inclusive range of vault account IDs, used when vaultAccountIds is omitted.
+ *                 properties:
+ *                   from:
+ *                     type: number
+ *                     example: 10
+ *                   to:
+ *                     type: number
+ *                     example: 500
+ *               targetAddress:
+ *                 type: string
+ *                 example: '0xabc123'
+ *               minimumBalances:
+ *                 type: object
+ *                 description: Minimum balance in base units per asset, keyed by fungible asset metadata address or MOVE. Only listed assets are swept.
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { 'MOVE': '10000000', '0x357b0b74bc833e95a115ad22604854d6b0fca151cecd94111770e5d6ffc9dc2b': '1000000' }
+ *               gasReserve:
+ *                 type: string
+ *                 description: Octas left in each vault.
+ *                 example: '0'
+ *               feePayerVaultAccountId:
+ *                 type: string
+ *                 description: Treasury vault account ID that sponsors the gas of every transfer, so vaults holding only tokens can be swept without MOVE.
+ *                 example: '0'
+ *               concurrency:
+ *                 type: number
+ *                 description: Vaults swept in parallel (1-20).
+ *                 example: 5
+ *     responses:
+ *       202:
+ *         description: Sweep started, the response contains the job report
+ *       400:
+ *         description: Invalid input
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/sweeps", controller.createSweep);
+
+/**
+ * @openapi
+ * /sweeps/{id}:
+ *   get:
+ *     summary: Get sweep report
+ *     description: Retrieves the status of a sweep job and the transfers made for each vault.
+ *     parameters:
+ *       - $ref: '#/components/parameters/network'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Sweep job ID.
+ *     responses:
+ *       200:
+ *         description: Sweep report fetched successfully
+ *       404:
+ *         description: Sweep not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/sweeps/:id", controller.getSweep);
+
+// Pool metrics
+/**
+ * @openapi
+ * /metrics:
+ *   get:
+ *     summary: Get SDK pool metrics
+ *     description: Retrieves metrics for the Fireblocks SDK connection pool.
+ *     responses:
+ *       200:
+ *         description: Metrics fetched successfully
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/metrics", controller.getPoolMetrics);
+
+// Health
+/**
+ * @openapi
+ * /health:
+ *   get:
+ *     summary: Check network health
+ *     description: Fetches the ledger info of every served network and checks that the fullnode reports the chain ID expected by the network profile. Transactions are refused on networks whose chain ID does not match.
+ *     responses:
+ *       200:
+ *         description: Every network is reachable and on the expected chain
+ *       503:
+ *         description: A fullnode is unreachable or reports an unexpected chain ID
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/health", controller.getHealth);
+
+// Fireblocks webhooks
+/**
+ * @openapi
+ * /webhooks/fireblocks:
+ *   post:
+ *     summary: Receive Fireblocks webhook notifications
+ *     description: Endpoint to register as the webhook URL of the Fireblocks workspace. Transaction updates complete the signing requests waiting for them without polling. Only enabled when FIREBLOCKS_WEBHOOK_PUBLIC_KEY is set, and notifications must carry a valid Fireblocks-Signature header.
+ *     parameters:
+ *       - in: header
+ *         name: Fireblocks-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Base64 RSA-SHA512 signature of the raw body.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 example: TRANSACTION_STATUS_UPDATED
+ *               data:
+ *                 type: object
+ *                 description: The Fireblocks transaction.
+ *     responses:
+ *       200:
+ *         description: Notification received
+ *       401:
+ *         description: Invalid webhook signature
+ *       404:
+ *         description: Webhook receiver is not configured
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/webhooks/fireblocks", controller.handleFireblocksWebhook);
 
 export default router;
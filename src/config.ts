@@ -1,7 +1,12 @@
 import dotenv from "dotenv";
 
 export type TConfigFireblocks = { BASE_PATH: string; API_KEY: string };
-export type TConfigAptos = { FULLNODE_URL: string; INDEXER: string };
+export type TConfigAptos = {
+  NETWORK: string;
+  FULLNODE_URL: string;
+  INDEXER: string;
+  CHAIN_ID: string;
+};
 
 dotenv.config();
 
@@ -16,7 +21,9 @@ export const config: {
     API_KEY: process.env.FIREBLOCKS_API_KEY || "",
   },
   aptos: {
+    NETWORK: process.env.MOVEMENT_NETWORK || "",
     FULLNODE_URL: process.env.APTOS_FULLNODE_URL || "",
     INDEXER: process.env.APTOS_INDEXER_URL || "",
+    CHAIN_ID: process.env.MOVEMENT_CHAIN_ID || "",
   },
 };
@@ -5,6 +5,13 @@ export const derivationPath = {
   addressIndex: 0,
 };
 
+export const addressIndexConstants = {
+  maxIndex: 2147483647, // highest non-hardened BIP44 index
+  defaultListCount: 10,
+  maxListCount: 100, // addresses derived per list request
+  listConcurrency: 10, // public keys fetched from Fireblocks at a time
+};
+
 export const createMoveTransactionConstants = {
   function: "0x1::aptos_account::transfer",
 };
@@ -14,8 +21,40 @@ export const createTokenTransactionConstants = {
   typeArguments: ["0x1::fungible_asset::Metadata"],
 };
 
+export const recipientPolicyDefaults = {
+  blockSelfTransfers: true,
+  blockSpecialAddresses: true,
+  requireExistingAccount: false, // MOVE transfers create missing accounts
+};
+
+export const transactionStoreConstants = {
+  settledRetentionMs: 7 * 24 * 60 * 60 * 1000, // committed, failed and cancelled records are kept for a week
+  pruneIntervalMs: 60 * 60 * 1000,
+};
+
+export const batchTransferConstants = {
+  maxTransfers: 100, // messages per Fireblocks RAW signing request
+};
+
+export const sendAllConstants = {
+  amount: "max", // transfer amount that sends the whole balance minus gas and reserve
+};
+
+export const sweepConstants = {
+  nativeAsset: "MOVE", // minimumBalances key of the native coin
+  defaultConcurrency: 5,
+  maxConcurrency: 20, // stays well below the SDK pool size
+  maxVaults: 10000,
+};
+
+export const gasEstimationConstants = {
+  gasBufferMultiplier: 1.5, // headroom on the simulated gas used for the max gas amount
+};
+
 export const signingMessagePrefix = "APTOS::RawTransaction";
 
+export const feePayerSigningMessagePrefix = "APTOS::RawTransactionWithData";
+
 export const getTransactionConstants = {
   GET_ACCOUNT_TRANSACTIONS_QUERY: `
   query GetAccountTransactionsData($address: String, $limit: Int, $offset: Int) {
@@ -30,12 +69,80 @@ account_transactions(
 }
 }
 `,
-  indexerURL: "https://indexer.mainnet.movementnetwork.xyz/v1/graphql",
   defaultLimit: 50,
   defaultOffset: 0,
 };
 
-export const AptosSDKConstants = {
-  fullnodeUrl: "https://mainnet.movementnetwork.xyz/v1",
-  indexerUrl: "https://indexer.mainnet.movementnetwork.xyz/v1/graphql",
+export const signingPollingConstants = {
+  intervalMs: 3000,
+  webhookIntervalMs: 30000, // first fallback poll when webhook notifications are received
+  maxIntervalMs: 30000,
+  backoffFactor: 1.5,
+  maxWaitMs: 3600000, // signing requests still pending after an hour fail
+};
+
+export const vaultProvisioningConstants = {
+  defaultListLimit: 20,
+  maxListLimit: 100, // each listed vault derives its address with a Fireblocks request
+  maxNameLength: 200,
+};
+
+export const idempotencyConstants = {
+  header: "Idempotency-Key",
+  feePayerSuffix: ":fee-payer", // external ID of the fee payer's signing request
+  maxKeyLength: 200,
+};
+
+export const webhookConstants = {
+  signatureHeader: "Fireblocks-Signature",
+  updateRetentionMs: 300000, // updates kept for signing requests that start waiting late
+};
+
+export const localSignerConstants = {
+  defaultSeed: "movement-fireblocks-sdk-local-signer", // keys derived from it are public, never fund them on mainnet
+};
+
+export const emulatorConstants = {
+  port: 8088,
+  stepMs: 1000, // time between two statuses of a scripted progression
+  // Progression of signing requests without a scripted one, completed after two steps
+  defaultStatuses: ["SUBMITTED", "PENDING_SIGNATURE", "COMPLETED"],
+};
+
+export const endpointConstants = {
+  maxRetries: 3, // extra rounds over all endpoints for requests that are safe to repeat
+  initialBackoffMs: 200,
+  maxBackoffMs: 2000,
+  cooldownMs: 30000, // failed endpoints are tried last for this long
+  requestTimeoutMs: 10000,
+};
+
+export const networkHeader = "X-Movement-Network"; // selects the network profile of an API request
+
+export const transferIdHeader = "X-Transfer-Id"; // ID of the stored record of a synchronous transfer
+
+export const accountAddressFormat =
+  "0x followed by 64 hex characters, or 0x0 to 0xf for special addresses"; // strict AIP-40 form
+
+export const networkProfiles = {
+  mainnet: {
+    fullnodeUrl: "https://mainnet.movementnetwork.xyz/v1",
+    indexerUrl: "https://indexer.mainnet.movementnetwork.xyz/v1/graphql",
+    chainId: 126,
+  },
+  testnet: {
+    fullnodeUrl: "https://testnet.bardock.movementnetwork.xyz/v1",
+    indexerUrl: "https://indexer.testnet.movementnetwork.xyz/v1/graphql",
+    chainId: 250,
+  },
+  devnet: {
+    fullnodeUrl: "https://devnet.movementnetwork.xyz/v1",
+    indexerUrl: "https://indexer.devnet.movementnetwork.xyz/v1/graphql",
+    chainId: undefined, // devnet is reset regularly
+  },
+  local: {
+    fullnodeUrl: "http://127.0.0.1:8080/v1",
+    indexerUrl: "http://127.0.0.1:8090/v1/graphql",
+    chainId: 4,
+  },
 };
@@ -0,0 +1,464 @@
+import express, { Express, Request, Response } from "express";
+import { Server } from "http";
+import { randomUUID } from "crypto";
+import {
+  SignedMessageAlgorithmEnum,
+  TransactionOperation,
+  TransactionStateEnum,
+  TransferPeerPathType,
+} from "@fireblocks/ts-sdk";
+import { emulatorConstants, localSignerConstants } from "../constants";
+import { deriveLocalPrivateKey } from "../services/localSigner.service";
+import {
+  EmulatedTransaction,
+  EmulatedVaultAccount,
+  EmulatorScenario,
+  FireblocksEmulatorOptions,
+} from "./types";
+
+const finalStatuses: string[] = [
+  TransactionStateEnum.Completed,
+  TransactionStateEnum.Cancelled,
+  TransactionStateEnum.Blocked,
+  TransactionStateEnum.Failed,
+  TransactionStateEnum.Rejected,
+];
+
+const isTransactionState = (status: unknown): boolean =>
+  Object.values(TransactionStateEnum).includes(status as TransactionStateEnum);
+
+// Derivation paths arrive as "[44, 637, 0, 0, 0]" in query strings and as arrays in request bodies
+const parseDerivationPath = (derivationPath: unknown): number[] | undefined => {
+  try {
+    const path =
+      typeof derivationPath === "string"
+        ? JSON.parse(derivationPath)
+        : derivationPath;
+    return Array.isArray(path) &&
+      path.length > 0 &&
+      path.every((index) => Number.isInteger(index) && index >= 0)
+      ? path
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Local stand-in for the Fireblocks API, for end-to-end tests without a Fireblocks workspace.
+ *
+ * @remarks
+ * Implements the endpoints used for RAW signing: public key lookup, transaction creation, status,
+ * lookup by external ID and cancellation, as well as vault account creation and listing. Keys are derived from a seed and the requested derivation path,
+ * with the same keys as a LocalSigner of the same seed, and completed requests carry real Ed25519 signatures.
+ * Signing works for any vault account ID, created through the API or not.
+ * Each signing request walks through a scripted progression of statuses, e.g. pending then rejected,
+ * to test approval failures and timeouts. Requests are not authenticated, any API key and RSA key are accepted.
+ */
+export class FireblocksEmulator {
+  private readonly seed: string;
+  private defaultScenario: Required<EmulatorScenario>;
+  private queuedScenarios: Required<EmulatorScenario>[] = [];
+  private transactions: Map<string, EmulatedTransaction> = new Map();
+  private vaultAccounts: EmulatedVaultAccount[] = [];
+  private server?: Server;
+
+  constructor(options?: FireblocksEmulatorOptions) {
+    this.seed = options?.seed ?? localSignerConstants.defaultSeed;
+    this.defaultScenario = this.toScenario(
+      options?.defaultScenario ?? {
+        statuses: emulatorConstants.defaultStatuses as TransactionStateEnum[],
+      }
+    );
+  }
+
+  /**
+   * Sets the status progression of signing requests created while no scenario is queued.
+   */
+  public setDefaultScenario = (scenario: EmulatorScenario): void => {
+    this.defaultScenario = this.toScenario(scenario);
+  };
+
+  /**
+   * Queues a status progression for the next signing request, e.g. `[PENDING_AUTHORIZATION, REJECTED]`.
+   * Queued scenarios are used in order, one per created request.
+   */
+  public queueScenario = (scenario: EmulatorScenario): void => {
+    this.queuedScenarios.push(this.toScenario(scenario));
+  };
+
+  /**
+   * Forces the status of a signing request, e.g. to approve a request that was left pending.
+   * @throws Will throw an error if the signing request does not exist.
+   */
+  public setTransactionStatus = (
+    txId: string,
+    status: TransactionStateEnum
+  ): void => {
+    const transaction = this.transactions.get(txId);
+    if (!transaction) {
+      throw new Error(`Transaction ${txId} not found`);
+    }
+    transaction.forcedStatus = status;
+  };
+
+  /**
+   * Creates the Express app serving the Fireblocks API under `/v1` and the control API under `/emulator`.
+   */
+  public createApp = (): Express => {
+    const app = express();
+    app.use(express.json());
+
+    const api = express.Router();
+    api.get("/vault/public_key_info", this.getPublicKeyInfo);
+    api.post("/vault/accounts", this.createVaultAccount);
+    api.get("/vault/accounts_paged", this.getVaultAccountsPaged);
+    api.post("/transactions", this.createTransaction);
+    api.get(
+      "/transactions/external_tx_id/:externalTxId",
+      this.getTransactionByExternalId
+    );
+    api.get("/transactions/:txId", this.getTransaction);
+    api.post("/transactions/:txId/cancel", this.cancelTransaction);
+    app.use("/v1", api);
+
+    const control = express.Router();
+    control.put("/scenario", this.handleScenario(this.setDefaultScenario));
+    control.post("/scenarios", this.handleScenario(this.queueScenario));
+    control.post("/transactions/:txId/status", this.forceStatus);
+    control.get("/transactions", (_req, res) => {
+      res.json([...this.transactions.values()].map(this.toTransactionResponse));
+    });
+    app.use("/emulator", control);
+    return app;
+  };
+
+  /**
+   * Starts the emulator. Point the SDK at it with the base path `http://localhost:<port>/v1`.
+   * @param port - The port to listen on.
+   * @returns A Promise that resolves once the server is listening.
+   */
+  public start = (port: number = emulatorConstants.port): Promise<Server> => {
+    return new Promise((resolve, reject) => {
+      const server = this.createApp().listen(port, () => resolve(server));
+      server.once("error", reject);
+      this.server = server;
+    });
+  };
+
+  /**
+   * Stops the emulator started with {@link start}.
+   */
+  public stop = (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server = undefined;
+    });
+  };
+
+  // GET /v1/vault/public_key_info
+  private getPublicKeyInfo = (req: Request, res: Response): void => {
+    const derivationPath = parseDerivationPath(req.query.derivationPath);
+    if (!derivationPath) {
+      res.status(400).json({ message: "Invalid derivation path" });
+      return;
+    }
+    if (req.query.algorithm !== SignedMessageAlgorithmEnum.EddsaEd25519) {
+      res.status(400).json({
+        message: `Only ${SignedMessageAlgorithmEnum.EddsaEd25519} is supported`,
+      });
+      return;
+    }
+    res.json({
+      status: 0,
+      algorithm: SignedMessageAlgorithmEnum.EddsaEd25519,
+      derivationPath,
+      publicKey: this.getPublicKey(derivationPath),
+    });
+  };
+
+  // POST /v1/vault/accounts, vault account IDs are assigned in order from 0
+  private createVaultAccount = (req: Request, res: Response): void => {
+    const { name, customerRefId, hiddenOnUI } = req.body ?? {};
+    if (typeof name !== "string" || name.trim() === "") {
+      res.status(400).json({ message: "A vault account needs a name" });
+      return;
+    }
+    const idempotencyKey = req.get("Idempotency-Key");
+    const existing = this.vaultAccounts.find(
+      (vaultAccount) =>
+        idempotencyKey !== undefined &&
+        vaultAccount.idempotencyKey === idempotencyKey
+    );
+    if (existing) {
+      res.json(this.toVaultAccountResponse(existing));
+      return;
+    }
+    const vaultAccount: EmulatedVaultAccount = {
+      id: String(this.vaultAccounts.length),
+      name,
+      customerRefId,
+      hiddenOnUI: hiddenOnUI === true,
+      idempotencyKey,
+    };
+    this.vaultAccounts.push(vaultAccount);
+    res.json(this.toVaultAccountResponse(vaultAccount));
+  };
+
+  // GET /v1/vault/accounts_paged, the cursors are vault account IDs
+  private getVaultAccountsPaged = (req: Request, res: Response): void => {
+    const { namePrefix, before, after } = req.query;
+    const limit = Number(req.query.limit ?? 200);
+    const matching = this.vaultAccounts.filter(
+      ({ name }) =>
+        typeof namePrefix !== "string" || name.startsWith(namePrefix)
+    );
+    let start = 0;
+    let end = matching.length;
+    if (after !== undefined) {
+      start = matching.findIndex(({ id }) => Number(id) > Number(after));
+      start = start < 0 ? matching.length : start;
+      end = Math.min(start + limit, matching.length);
+    } else if (before !== undefined) {
+      end = matching.filter(({ id }) => Number(id) < Number(before)).length;
+      start = Math.max(0, end - limit);
+    } else {
+      end = Math.min(limit, matching.length);
+    }
+    const accounts = matching.slice(start, end);
+    res.json({
+      accounts: accounts.map(this.toVaultAccountResponse),
+      paging: {
+        before: start > 0 ? accounts[0]?.id : undefined,
+        after:
+          end < matching.length ? accounts[accounts.length - 1]?.id : undefined,
+      },
+    });
+  };
+
+  // POST /v1/transactions, RAW signing requests only
+  private createTransaction = (req: Request, res: Response): void => {
+    const { operation, source, externalTxId, customerRefId, note } =
+      req.body ?? {};
+    const messages: any[] =
+      req.body?.extraParameters?.rawMessageData?.messages ?? [];
+    if (operation !== TransactionOperation.Raw) {
+      res.status(400).json({ message: "Only RAW operations are supported" });
+      return;
+    }
+    if (
+      messages.length === 0 ||
+      messages.some(
+        (message) =>
+          typeof message?.content !== "string" ||
+          !parseDerivationPath(message.derivationPath)
+      )
+    ) {
+      res.status(400).json({
+        message: "Every message needs a hex content and a derivation path",
+      });
+      return;
+    }
+    if (
+      externalTxId !== undefined &&
+      [...this.transactions.values()].some(
+        (transaction) => transaction.externalTxId === externalTxId
+      )
+    ) {
+      res.status(400).json({
+        message: `The external tx id ${externalTxId} already exists`,
+      });
+      return;
+    }
+    const transaction: EmulatedTransaction = {
+      id: randomUUID(),
+      vaultAccountId: String(source?.id ?? 0),
+      externalTxId,
+      customerRefId,
+      note,
+      messages: messages.map((message) => ({
+        content: message.content,
+        derivationPath: parseDerivationPath(message.derivationPath)!,
+      })),
+      scenario: this.queuedScenarios.shift() ?? this.defaultScenario,
+      createdAt: Date.now(),
+    };
+    this.transactions.set(transaction.id, transaction);
+    console.log(
+      `Emulated signing request ${transaction.id}: ${transaction.scenario.statuses.join(
+        " -> "
+      )}`
+    );
+    res.json({ id: transaction.id, status: this.getStatus(transaction) });
+  };
+
+  // GET /v1/transactions/:txId
+  private getTransaction = (req: Request, res: Response): void => {
+    const transaction = this.transactions.get(String(req.params.txId));
+    if (!transaction) {
+      res.status(404).json({ message: "Transaction not found" });
+      return;
+    }
+    res.json(this.toTransactionResponse(transaction));
+  };
+
+  // GET /v1/transactions/external_tx_id/:externalTxId
+  private getTransactionByExternalId = (req: Request, res: Response): void => {
+    const transaction = [...this.transactions.values()].find(
+      ({ externalTxId }) => externalTxId === req.params.externalTxId
+    );
+    if (!transaction) {
+      res.status(404).json({ message: "Transaction not found" });
+      return;
+    }
+    res.json(this.toTransactionResponse(transaction));
+  };
+
+  // POST /v1/transactions/:txId/cancel, only pending requests can be cancelled
+  private cancelTransaction = (req: Request, res: Response): void => {
+    const transaction = this.transactions.get(String(req.params.txId));
+    if (!transaction) {
+      res.status(404).json({ message: "Transaction not found" });
+      return;
+    }
+    const status = this.getStatus(transaction);
+    if (finalStatuses.includes(status)) {
+      res
+        .status(400)
+        .json({ message: `Transaction is already ${status}`, success: false });
+      return;
+    }
+    transaction.forcedStatus = TransactionStateEnum.Cancelled;
+    res.json({ success: true });
+  };
+
+  // PUT /emulator/scenario and POST /emulator/scenarios
+  private handleScenario =
+    (apply: (scenario: EmulatorScenario) => void) =>
+    (req: Request, res: Response): void => {
+      const { statuses, stepMs } = req.body ?? {};
+      if (
+        !Array.isArray(statuses) ||
+        statuses.length === 0 ||
+        !statuses.every(isTransactionState) ||
+        (stepMs !== undefined && !(Number(stepMs) >= 0))
+      ) {
+        res.status(400).json({
+          message: `statuses must be a non-empty array of ${Object.values(
+            TransactionStateEnum
+          ).join(", ")}`,
+        });
+        return;
+      }
+      apply({
+        statuses,
+        stepMs: stepMs !== undefined ? Number(stepMs) : undefined,
+      });
+      res.status(204).end();
+    };
+
+  // POST /emulator/transactions/:txId/status
+  private forceStatus = (req: Request, res: Response): void => {
+    const status = req.body?.status;
+    if (!isTransactionState(status)) {
+      res.status(400).json({ message: `Unknown status ${status}` });
+      return;
+    }
+    try {
+      this.setTransactionStatus(String(req.params.txId), status);
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(404).json({ message: error.message });
+    }
+  };
+
+  private toScenario = (
+    scenario: EmulatorScenario
+  ): Required<EmulatorScenario> => {
+    return {
+      statuses: [...scenario.statuses],
+      stepMs: scenario.stepMs ?? emulatorConstants.stepMs,
+    };
+  };
+
+  private getStatus = (
+    transaction: EmulatedTransaction
+  ): TransactionStateEnum => {
+    if (transaction.forcedStatus) {
+      return transaction.forcedStatus;
+    }
+    const { statuses, stepMs } = transaction.scenario;
+    const step =
+      stepMs > 0
+        ? Math.floor((Date.now() - transaction.createdAt) / stepMs)
+        : statuses.length - 1;
+    return statuses[Math.min(step, statuses.length - 1)];
+  };
+
+  private getPublicKey = (derivationPath: number[]): string => {
+    return deriveLocalPrivateKey(this.seed, derivationPath)
+      .publicKey()
+      .toString()
+      .slice(2);
+  };
+
+  private toVaultAccountResponse = (vaultAccount: EmulatedVaultAccount) => {
+    return {
+      id: vaultAccount.id,
+      name: vaultAccount.name,
+      customerRefId: vaultAccount.customerRefId,
+      hiddenOnUI: vaultAccount.hiddenOnUI,
+      autoFuel: false,
+      assets: [],
+    };
+  };
+
+  private toTransactionResponse = (transaction: EmulatedTransaction) => {
+    const status = this.getStatus(transaction);
+    return {
+      id: transaction.id,
+      externalTxId: transaction.externalTxId,
+      customerRefId: transaction.customerRefId,
+      note: transaction.note,
+      status,
+      operation: TransactionOperation.Raw,
+      source: {
+        type: TransferPeerPathType.VaultAccount,
+        id: transaction.vaultAccountId,
+      },
+      createdAt: transaction.createdAt,
+      lastUpdated: Date.now(),
+      extraParameters: {
+        rawMessageData: {
+          messages: transaction.messages,
+          algorithm: SignedMessageAlgorithmEnum.EddsaEd25519,
+        },
+      },
+      signedMessages:
+        status === TransactionStateEnum.Completed
+          ? transaction.messages.map(({ content, derivationPath }) => {
+              const privateKey = deriveLocalPrivateKey(
+                this.seed,
+                derivationPath
+              );
+              return {
+                content,
+                algorithm: SignedMessageAlgorithmEnum.EddsaEd25519,
+                derivationPath,
+                signature: {
+                  fullSig: privateKey
+                    .sign(Buffer.from(content, "hex"))
+                    .toString()
+                    .slice(2),
+                },
+                publicKey: privateKey.publicKey().toString().slice(2),
+              };
+            })
+          : [],
+    };
+  };
+}
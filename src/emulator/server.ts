@@ -0,0 +1,38 @@
+import dotenv from "dotenv";
+import { generateKeyPairSync } from "crypto";
+import fs from "fs";
+import path from "path";
+import { FireblocksEmulator } from "./FireblocksEmulator";
+import { emulatorConstants } from "../constants";
+
+// Load environment variables
+dotenv.config();
+
+// The Fireblocks SDK signs its requests with an RSA key, any key is accepted by the emulator
+const secretKeyPath = process.env.FIREBLOCKS_EMULATOR_SECRET_KEY_PATH;
+if (secretKeyPath && !fs.existsSync(secretKeyPath)) {
+  const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  fs.mkdirSync(path.dirname(secretKeyPath), { recursive: true });
+  fs.writeFileSync(
+    secretKeyPath,
+    privateKey.export({ type: "pkcs8", format: "pem" })
+  );
+  console.log(`Wrote a throwaway API secret key to ${secretKeyPath}`);
+}
+
+const emulator = new FireblocksEmulator({
+  seed: process.env.FIREBLOCKS_EMULATOR_SEED || undefined,
+});
+const PORT =
+  Number(process.env.FIREBLOCKS_EMULATOR_PORT) || emulatorConstants.port;
+emulator
+  .start(PORT)
+  .then(() =>
+    console.log(
+      `Fireblocks emulator running on port ${PORT}, set FIREBLOCKS_BASE_PATH=http://localhost:${PORT}/v1`
+    )
+  )
+  .catch((error) => {
+    console.error("Failed to start the Fireblocks emulator:", error);
+    process.exit(1);
+  });
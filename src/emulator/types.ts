@@ -0,0 +1,36 @@
+import { TransactionStateEnum } from "@fireblocks/ts-sdk";
+
+export interface EmulatorScenario {
+  statuses: TransactionStateEnum[]; // reported one after the other, the last one for good
+  stepMs?: number; // time between two statuses
+}
+
+export interface FireblocksEmulatorOptions {
+  seed?: string; // seed of the vault keys, the LocalSigner's default seed by default
+  defaultScenario?: EmulatorScenario; // progression of signing requests without a queued scenario
+}
+
+export interface EmulatedMessage {
+  content: string; // hex message to sign
+  derivationPath: number[];
+}
+
+export interface EmulatedVaultAccount {
+  id: string;
+  name: string;
+  customerRefId?: string;
+  hiddenOnUI: boolean;
+  idempotencyKey?: string; // retries with the same Idempotency-Key header return this vault
+}
+
+export interface EmulatedTransaction {
+  id: string;
+  vaultAccountId: string;
+  externalTxId?: string;
+  customerRefId?: string;
+  note?: string;
+  messages: EmulatedMessage[];
+  scenario: Required<EmulatorScenario>;
+  forcedStatus?: TransactionStateEnum; // set by a cancellation or the control API, overrides the scenario
+  createdAt: number; // epoch milliseconds
+}
@@ -1,5 +1,14 @@
 export * from "./MovementFireblocksSDK";
 export * from "./services/types";
+export { LocalSigner } from "./services/localSigner.service";
+export { FireblocksEmulator } from "./emulator/FireblocksEmulator";
+export * from "./emulator/types";
 export * from "./config";
 export * from "./constants";
+export { getMovementConfig } from "./utils/network.utils";
+export {
+  SigningTimeoutError,
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "./utils/errorHandling";
 export * from "./server";
@@ -1,16 +1,47 @@
 import { MovementFireblocksSDK } from "../MovementFireblocksSDK";
-import { PoolConfig, SdkPoolItem, SdkManagerMetrics } from "./types";
-import { FireblocksConfig } from "../services/types";
+import {
+  NetworkOverrides,
+  PoolConfig,
+  SdkPoolItem,
+  SdkManagerMetrics,
+} from "./types";
+import {
+  FireblocksConfig,
+  MovementConfig,
+  MovementNetwork,
+  SdkOptions,
+} from "../services/types";
+import { derivationPath } from "../constants";
 import { formatErrorMessage } from "../utils/errorHandling";
+import { getDefaultNetwork, getMovementConfig } from "../utils/network.utils";
+import { SequenceNumberService } from "../services/sequence.service";
+import { PoolError } from "./errors";
 
 export class SdkManager {
   private sdkPool: Map<string, SdkPoolItem> = new Map();
+  // Instances being created, so concurrent first requests for a pool key share one instance
+  private pendingSdks: Map<string, Promise<MovementFireblocksSDK>> = new Map();
   private baseConfig: FireblocksConfig;
   private poolConfig: PoolConfig;
+  private sdkOptions: SdkOptions;
+  private defaultNetwork: MovementNetwork;
+  private networks: NetworkOverrides;
+  private sequenceNumberServices: Map<MovementNetwork, SequenceNumberService> =
+    new Map();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor(baseConfig: FireblocksConfig, poolConfig?: Partial<PoolConfig>) {
+  constructor(
+    baseConfig: FireblocksConfig,
+    poolConfig?: Partial<PoolConfig>,
+    sdkOptions?: SdkOptions,
+    defaultNetwork?: MovementNetwork,
+    networks?: NetworkOverrides
+  ) {
     this.baseConfig = baseConfig;
+    // Shared across all pooled instances so evicted SDKs don't lose state
+    this.sdkOptions = sdkOptions ?? {};
+    this.defaultNetwork = defaultNetwork ?? getDefaultNetwork();
+    this.networks = networks ?? {};
 
     // Set default pool config values
     this.poolConfig = {
@@ -29,77 +60,197 @@ export class SdkManager {
   /**
    * Get an SDK instance for a specific vault account ID
    * @param vaultAccountId Fireblocks vault account ID
+   * @param network Movement network of the instance, defaults to the manager's default network
+   * @param addressIndex Address index within the vault, defaults to the vault's first address
    * @returns MovementFireblocksSDK instance
    */
   public getSdk = async (
-    vaultAccountId: string
+    vaultAccountId: string,
+    network?: MovementNetwork,
+    addressIndex?: number
   ): Promise<MovementFireblocksSDK> => {
-    // Check if we already have an instance for this vault account
-    const poolItem = this.sdkPool.get(vaultAccountId);
+    // The same vault has a separate instance for every network and address
+    const poolKey = this.getPoolKey(vaultAccountId, network, addressIndex);
+    const poolItem = this.sdkPool.get(poolKey);
 
     // If instance exists and is not in use, return it
     if (poolItem && !poolItem.isInUse) {
-      console.log(`Reusing existing SDK instance for vault ${vaultAccountId}`);
+      console.log(`Reusing existing SDK instance for ${poolKey}`);
       poolItem.lastUsed = new Date();
       poolItem.isInUse = true;
+      poolItem.activeRequests = 1;
       return poolItem.sdk;
     }
 
-    // Check pool capacity
-    if (this.sdkPool.size >= this.poolConfig.maxPoolSize && !poolItem) {
-      // Try to find and remove an idle instance
-      const removed = await this.removeOldestIdleSdk();
-      if (!removed) {
-        throw new Error(
-          `SDK pool is at maximum capacity (${this.poolConfig.maxPoolSize}) with no idle connections`
-        );
-      }
-    }
-
-    // Create a new SDK instance if needed
-    if (!poolItem) {
-      const sdk = await this.createSdkInstance(vaultAccountId);
-      this.sdkPool.set(vaultAccountId, {
-        sdk,
-        lastUsed: new Date(),
-        isInUse: true,
-      });
-      return sdk;
-    } else {
-      // Instance exists but is in use
+    // Instance exists but is in use, share it so all requests use the same sequence numbers
+    if (poolItem) {
       poolItem.lastUsed = new Date();
       poolItem.isInUse = true;
+      poolItem.activeRequests++;
       return poolItem.sdk;
     }
+
+    // Create a new SDK instance, or wait for the one a concurrent request is creating
+    let creation = this.pendingSdks.get(poolKey);
+    if (!creation) {
+      creation = this.createPooledSdk(
+        poolKey,
+        vaultAccountId,
+        network ?? this.defaultNetwork,
+        addressIndex ?? derivationPath.addressIndex
+      );
+      this.pendingSdks.set(poolKey, creation);
+      const settle = (): void => {
+        this.pendingSdks.delete(poolKey);
+      };
+      creation.then(settle, settle);
+    }
+    const sdk = await creation;
+    const createdItem = this.sdkPool.get(poolKey);
+    if (createdItem) {
+      createdItem.lastUsed = new Date();
+      createdItem.isInUse = true;
+      createdItem.activeRequests++;
+    }
+    return sdk;
+  };
+
+  /**
+   * Get the networks served by the pool: the default network and every network with an instance
+   */
+  public getNetworks = (): MovementNetwork[] => {
+    const networks = new Set<MovementNetwork>([this.defaultNetwork]);
+    for (const key of this.sdkPool.keys()) {
+      networks.add(key.split(":")[0] as MovementNetwork);
+    }
+    return [...networks];
+  };
+
+  /**
+   * Resolve the network profile of the instances created for a network
+   * @param network Movement network, defaults to the manager's default network
+   */
+  public getMovementConfig = (network?: MovementNetwork): MovementConfig => {
+    const selected = network ?? this.defaultNetwork;
+    return getMovementConfig(selected, this.networks[selected]);
+  };
+
+  /**
+   * Get the network used when a request does not select one
+   */
+  public getDefaultNetwork = (): MovementNetwork => {
+    return this.defaultNetwork;
   };
 
   /**
    * Release an SDK instance back to the pool
    * @param vaultAccountId Vault account ID
+   * @param network Movement network the instance was requested for
+   * @param addressIndex Address index the instance was requested for
    */
-  public releaseSdk = (vaultAccountId: string): void => {
-    const poolItem = this.sdkPool.get(vaultAccountId);
+  public releaseSdk = (
+    vaultAccountId: string,
+    network?: MovementNetwork,
+    addressIndex?: number
+  ): void => {
+    const poolItem = this.sdkPool.get(
+      this.getPoolKey(vaultAccountId, network, addressIndex)
+    );
     if (poolItem) {
-      poolItem.isInUse = false;
+      // Only mark the instance idle once every concurrent request released it
+      poolItem.activeRequests = Math.max(0, poolItem.activeRequests - 1);
+      poolItem.isInUse = poolItem.activeRequests > 0;
       poolItem.lastUsed = new Date();
     }
   };
 
+  private getPoolKey = (
+    vaultAccountId: string,
+    network?: MovementNetwork,
+    addressIndex?: number
+  ): string =>
+    `${network ?? this.defaultNetwork}:${vaultAccountId}:${
+      addressIndex ?? derivationPath.addressIndex
+    }`;
+
+  /**
+   * Create a new SDK instance and add it to the pool, idle until the requests that waited for it use it
+   * @param poolKey Pool key of the instance
+   * @param vaultAccountId Vault account ID
+   * @param network Movement network of the instance
+   * @param addressIndex Address index within the vault
+   * @returns New MovementFireblocksSDK instance
+   */
+  private createPooledSdk = async (
+    poolKey: string,
+    vaultAccountId: string,
+    network: MovementNetwork,
+    addressIndex: number
+  ): Promise<MovementFireblocksSDK> => {
+    // Check pool capacity
+    if (this.sdkPool.size >= this.poolConfig.maxPoolSize) {
+      // Try to find and remove an idle instance
+      const removed = await this.removeOldestIdleSdk();
+      if (!removed) {
+        throw new Error(
+          `SDK pool is at maximum capacity (${this.poolConfig.maxPoolSize}) with no idle connections`
+        );
+      }
+    }
+    const sdk = await this.createSdkInstance(
+      vaultAccountId,
+      network,
+      addressIndex
+    );
+    this.sdkPool.set(poolKey, {
+      sdk,
+      lastUsed: new Date(),
+      isInUse: false,
+      activeRequests: 0,
+    });
+    return sdk;
+  };
+
   /**
    * Create a new SDK instance
    * @param vaultAccountId Vault account ID
+   * @param network Movement network of the instance
+   * @param addressIndex Address index within the vault
    * @returns New MovementFireblocksSDK instance
    */
   private createSdkInstance = async (
-    vaultAccountId: string
+    vaultAccountId: string,
+    network: MovementNetwork,
+    addressIndex: number
   ): Promise<MovementFireblocksSDK> => {
     const config: FireblocksConfig = {
       ...this.baseConfig,
     };
 
     try {
-      console.log(`Creating new SDK instance for vault ${vaultAccountId}`);
-      const sdk = await MovementFireblocksSDK.create(vaultAccountId, config);
+      console.log(
+        `Creating new SDK instance for vault ${vaultAccountId} address ${addressIndex} on ${network}`
+      );
+      // Sequence numbers are tracked per chain, so each network gets its own allocator.
+      // An allocator passed in the SDK options tracks accounts by address only, so it serves a single network.
+      let sequenceNumberService = this.sequenceNumberServices.get(network);
+      if (!sequenceNumberService) {
+        const [servedNetwork] = this.sequenceNumberServices.keys();
+        if (this.sdkOptions.sequenceNumberService && servedNetwork) {
+          throw new PoolError(
+            `The sequenceNumberService of the SDK options already serves ${servedNetwork} and cannot be shared with ${network}`
+          );
+        }
+        sequenceNumberService =
+          this.sdkOptions.sequenceNumberService ?? new SequenceNumberService();
+        this.sequenceNumberServices.set(network, sequenceNumberService);
+      }
+      const sdk = await MovementFireblocksSDK.create(vaultAccountId, config, {
+        ...this.sdkOptions,
+        sequenceNumberService,
+        movementConfig: this.getMovementConfig(network),
+        addressIndex,
+      });
       return sdk;
     } catch (error) {
       console.error(`Failed to create SDK for vault ${vaultAccountId}:`, error);
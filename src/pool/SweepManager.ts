@@ -0,0 +1,285 @@
+import { randomUUID } from "crypto";
+import {
+  AccountAddress,
+  APTOS_COIN,
+  CommittedTransactionResponse,
+  EntryFunctionPayloadResponse,
+  UserTransactionResponse,
+} from "@aptos-labs/ts-sdk";
+import { SdkManager } from "./SdkManager";
+import { SweepRequest } from "./types";
+import { MovementFireblocksSDK } from "../MovementFireblocksSDK";
+import { sweepConstants } from "../constants";
+import {
+  SweepJob,
+  SweepStatus,
+  SweepStore,
+  SweepTransfer,
+  SweepVaultReport,
+  SweepVaultStatus,
+} from "../store/types";
+import { formatErrorMessage } from "../utils/errorHandling";
+
+// Fungible asset addresses are compared in their long form, "MOVE" is kept as is
+const normalizeAsset = (asset: string): string =>
+  asset === sweepConstants.nativeAsset
+    ? asset
+    : AccountAddress.from(asset).toStringLong();
+
+// The native coin is listed by its coin type, or by the 0xa metadata address of its fungible asset form
+const isNativeAsset = (assetType: string): boolean =>
+  assetType === APTOS_COIN ||
+  (AccountAddress.isValid({ input: assetType }).valid &&
+    AccountAddress.from(assetType).equals(AccountAddress.A));
+
+/**
+ * Consolidates the balances of many vaults into a single target address.
+ *
+ * @remarks
+ * Each vault transfers its fungible assets first and then its MOVE balance minus the gas reserve,
+ * so that the gas of the token transfers is paid before the MOVE balance is emptied.
+ * With a fee payer vault, every transfer is sponsored, so vaults holding only tokens can be swept
+ * without topping them up with MOVE first.
+ * Job reports are saved after every vault, and jobs still running when the process stopped
+ * are resumed from their pending vaults. Balances are re-read on resume, so vaults that were
+ * already swept are skipped instead of transferring twice, and vaults with transactions still
+ * in flight fail instead of being swept from balances that are about to change.
+ */
+export class SweepManager {
+  private sdkManager: SdkManager;
+  private sweepStore: SweepStore;
+
+  constructor(sdkManager: SdkManager, sweepStore: SweepStore) {
+    this.sdkManager = sdkManager;
+    this.sweepStore = sweepStore;
+  }
+
+  /**
+   * Creates a sweep job and starts it in the background.
+   * @param request - The vaults to sweep, the target address, the per-asset minimums and the gas reserve.
+   * @returns A promise that resolves to the saved job report.
+   * @throws {Error} If the job cannot be saved.
+   */
+  public createSweep = async (request: SweepRequest): Promise<SweepJob> => {
+    const vaultAccountIds = request.vaultAccountIds ?? [];
+    if (!request.vaultAccountIds && request.vaultAccountIdRange) {
+      const { from, to } = request.vaultAccountIdRange;
+      for (let id = from; id <= to; id++) {
+        vaultAccountIds.push(String(id));
+      }
+    }
+    const now = new Date().toISOString();
+    const job: SweepJob = {
+      id: randomUUID(),
+      status: SweepStatus.RUNNING,
+      targetAddress: AccountAddress.from(request.targetAddress).toStringLong(),
+      minimumBalances: Object.fromEntries(
+        Object.entries(request.minimumBalances).map(([asset, minimum]) => [
+          normalizeAsset(asset),
+          String(minimum),
+        ])
+      ),
+      gasReserve: String(request.gasReserve ?? 0),
+      feePayerVaultAccountId: request.feePayerVaultAccountId,
+      concurrency: request.concurrency ?? sweepConstants.defaultConcurrency,
+      network: request.network ?? this.sdkManager.getDefaultNetwork(),
+      vaults: [...new Set(vaultAccountIds.map(String))].map(
+        (vaultAccountId) => ({
+          vaultAccountId,
+          status: SweepVaultStatus.PENDING,
+          transfers: [],
+        })
+      ),
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await this.sweepStore.save(job);
+    } catch (error) {
+      throw new Error(`Failed to create sweep: ${formatErrorMessage(error)}`);
+    }
+    this.startJob(job);
+    return job;
+  };
+
+  /**
+   * Retrieves the report of a sweep job.
+   * @param id - The sweep job ID.
+   * @returns A promise that resolves to the job report, or undefined if it does not exist.
+   */
+  public getSweep = async (id: string): Promise<SweepJob | undefined> => {
+    return this.sweepStore.get(id);
+  };
+
+  /**
+   * Resumes the jobs that were still running when the process stopped.
+   * @returns A promise that resolves to the number of resumed jobs.
+   */
+  public resumeSweeps = async (): Promise<number> => {
+    const jobs = await this.sweepStore.list({
+      statuses: [SweepStatus.RUNNING],
+    });
+    for (const job of jobs) {
+      this.startJob(job);
+    }
+    return jobs.length;
+  };
+
+  private startJob = (job: SweepJob): void => {
+    this.runJob(job).catch((error) =>
+      console.error(`Sweep ${job.id} stopped: ${formatErrorMessage(error)}`)
+    );
+  };
+
+  // Sweeps the pending vaults with at most `job.concurrency` vaults in flight
+  private runJob = async (job: SweepJob): Promise<void> => {
+    const pending = job.vaults.filter(
+      (vault) => vault.status === SweepVaultStatus.PENDING
+    );
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < pending.length) {
+        const vault = pending[next++];
+        await this.sweepVault(job, vault);
+        await this.saveJob(job);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(job.concurrency, pending.length) }, worker)
+    );
+    job.status = SweepStatus.COMPLETED;
+    job.completedAt = new Date().toISOString();
+    await this.saveJob(job);
+  };
+
+  private sweepVault = async (
+    job: SweepJob,
+    vault: SweepVaultReport
+  ): Promise<void> => {
+    let sdk: MovementFireblocksSDK | undefined;
+    try {
+      sdk = await this.sdkManager.getSdk(vault.vaultAccountId, job.network);
+      vault.address = sdk.getMovementAccountAddress();
+      // The target and the fee payer vault keep their balances
+      if (
+        AccountAddress.from(vault.address).toStringLong() ===
+          job.targetAddress ||
+        vault.vaultAccountId === job.feePayerVaultAccountId
+      ) {
+        vault.status = SweepVaultStatus.SKIPPED;
+        return;
+      }
+      // The balances are not final while a transfer of the vault, e.g. one resumed after a restart, is in flight
+      if (await sdk.hasPendingTransactions()) {
+        vault.status = SweepVaultStatus.FAILED;
+        vault.error =
+          "Vault has transactions in flight, sweep it again once they have settled";
+        return;
+      }
+
+      const balances = await sdk.getBalances();
+      const transfers: SweepTransfer[] = [];
+      let nativeBalance = BigInt(0);
+      for (const balance of balances) {
+        const amount = BigInt(balance.amount_in_octas);
+        if (isNativeAsset(balance.asset_type)) {
+          nativeBalance += amount;
+          continue;
+        }
+        if (balance.asset_type.includes("::")) {
+          continue; // coin balances cannot be moved with a fungible asset transfer
+        }
+        const minimum = job.minimumBalances[normalizeAsset(balance.asset_type)];
+        if (minimum === undefined || amount === BigInt(0)) {
+          continue;
+        }
+        if (amount >= BigInt(minimum)) {
+          transfers.push(
+            await this.transfer(balance.asset_type, amount.toString(), () =>
+              sdk.createTokenTransaction(
+                job.targetAddress,
+                amount,
+                balance.asset_type,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                { feePayerVaultAccountId: job.feePayerVaultAccountId }
+              )
+            )
+          );
+        }
+      }
+
+      const nativeMinimum = job.minimumBalances[sweepConstants.nativeAsset];
+      const nativeSweepable = nativeBalance - BigInt(job.gasReserve);
+      if (
+        nativeMinimum !== undefined &&
+        nativeSweepable > BigInt(0) &&
+        nativeSweepable >= BigInt(nativeMinimum)
+      ) {
+        transfers.push(
+          await this.transfer(
+            sweepConstants.nativeAsset,
+            nativeSweepable.toString(),
+            () =>
+              sdk.sendAll(job.targetAddress, {
+                reserveAmount: job.gasReserve,
+                feePayerVaultAccountId: job.feePayerVaultAccountId,
+              })
+          )
+        );
+      }
+
+      vault.transfers.push(...transfers);
+      vault.status = transfers.some((transfer) => !transfer.success)
+        ? SweepVaultStatus.FAILED
+        : transfers.length > 0
+          ? SweepVaultStatus.SWEPT
+          : SweepVaultStatus.SKIPPED;
+    } catch (error) {
+      vault.status = SweepVaultStatus.FAILED;
+      vault.error = formatErrorMessage(error);
+    } finally {
+      if (sdk) {
+        this.sdkManager.releaseSdk(vault.vaultAccountId, job.network);
+      }
+    }
+  };
+
+  // Runs one transfer and reports its outcome instead of throwing, so the other assets are still swept
+  private transfer = async (
+    asset: string,
+    amount: string,
+    send: () => Promise<CommittedTransactionResponse>
+  ): Promise<SweepTransfer> => {
+    try {
+      const response = await send();
+      const payload = (response as UserTransactionResponse)
+        .payload as EntryFunctionPayloadResponse;
+      return {
+        asset,
+        // MOVE sweeps deduct the gas fee, so the amount sent is read back from the transaction
+        amount:
+          asset === sweepConstants.nativeAsset
+            ? String(payload?.arguments?.[1] ?? amount)
+            : amount,
+        success: response.success,
+        transactionHash: response.hash,
+        vmStatus: response.vm_status,
+      };
+    } catch (error) {
+      return {
+        asset,
+        amount,
+        success: false,
+        error: formatErrorMessage(error),
+      };
+    }
+  };
+
+  private saveJob = async (job: SweepJob): Promise<void> => {
+    job.updatedAt = new Date().toISOString();
+    await this.sweepStore.save(job);
+  };
+}
@@ -1,5 +1,15 @@
 import { BasePath } from "@fireblocks/ts-sdk";
 import { MovementFireblocksSDK } from "../MovementFireblocksSDK";
+import { SweepStore, TransactionStore } from "../store/types";
+import {
+  ChainIdCheck,
+  GasPricingPolicy,
+  MovementConfig,
+  MovementNetwork,
+  RecipientPolicy,
+  SigningPollingConfig,
+  TransactionSigner,
+} from "../services/types";
 
 export interface PoolConfig {
   maxPoolSize: number;
@@ -7,10 +17,16 @@ export interface PoolConfig {
   cleanupIntervalMs: number;
 }
 
+// Endpoint or chain ID overrides per network profile, e.g. the endpoints of a custom network
+export type NetworkOverrides = Partial<
+  Record<MovementNetwork, Partial<Omit<MovementConfig, "network">>>
+>;
+
 export interface SdkPoolItem {
   sdk: MovementFireblocksSDK;
   lastUsed: Date;
   isInUse: boolean;
+  activeRequests: number; // concurrent requests sharing the instance
 }
 
 export interface ApiServiceConfig {
@@ -18,17 +34,56 @@ export interface ApiServiceConfig {
   apiSecret: string;
   basePath: BasePath | string;
   poolConfig?: Partial<PoolConfig>;
+  transactionStore?: TransactionStore;
+  recoverPendingTransactions?: boolean; // resume in-flight transactions from the store on startup
+  gasPricingPolicy?: GasPricingPolicy; // default policy for transfers without explicit gas values
+  sweepStore?: SweepStore;
+  network?: MovementNetwork; // network of requests that do not select one, defaults to MOVEMENT_NETWORK
+  networks?: NetworkOverrides;
+  webhookPublicKey?: string; // Fireblocks webhook public key (PEM or file path), enables the webhook receiver
+  signingPolling?: SigningPollingConfig; // polling of signing requests, the fallback when webhooks are enabled
+  signer?: TransactionSigner; // replaces Fireblocks signing, e.g. with a LocalSigner in tests
+  recipientPolicy?: RecipientPolicy; // recipients that transfers are refused to
+}
+
+export interface SweepRequest {
+  vaultAccountIds?: string[];
+  vaultAccountIdRange?: { from: number; to: number }; // inclusive, used when vaultAccountIds is omitted
+  targetAddress: string;
+  minimumBalances: Record<string, string | number>; // asset type or "MOVE" -> minimum balance in base units, only listed assets are swept
+  gasReserve?: string | number; // octas left in each vault to pay for gas, defaults to 0
+  feePayerVaultAccountId?: string; // treasury vault that sponsors the gas, so vaults without MOVE can be swept
+  concurrency?: number; // vaults swept in parallel
+  network?: MovementNetwork;
 }
 
 export enum ActionType {
   CREATE_MOVE_TRANSACTION = "createMoveTransaction",
   CREATE_TOKEN_TRANSACTION = "createTokenTransaction",
+  CALL_ENTRY_FUNCTION = "callEntryFunction",
+  CREATE_BATCH_TRANSFERS = "createBatchTransfers",
+  ESTIMATE_FEES = "estimateFees",
+  SIMULATE_MOVE_TRANSACTION = "simulateMoveTransaction",
+  SIMULATE_TOKEN_TRANSACTION = "simulateTokenTransaction",
+  PREPARE_TRANSACTION = "prepareTransaction",
+  SIGN_PREPARED_TRANSACTION = "signPreparedTransaction",
+  SUBMIT_SIGNED_TRANSACTION = "submitSignedTransaction",
+  GET_TRANSACTION_STATUS = "getTransactionStatus",
+  CANCEL_TRANSACTION = "cancelTransaction",
   GET_BALANCE = "getBalance",
   GET_BALANCES = "getBalances",
   GET_TRANSACTIONS_HISTORY = "getTransactionsHistory",
   GET_ACCOUNT_COINS_DATA = "getAccountCoinsData",
   GET_ACCOUNT_ADDRESS = "getMovementAccountAddress",
   GET_ACCOUNT_PUBLIC_KEY = "getMovementAccountPublicKey",
+  GET_ADDRESSES = "getAddresses",
+  GET_ACCOUNT_STATUS = "getAccountStatus",
+  CHECK_RECIPIENT = "checkRecipient",
+}
+
+export interface HealthReport {
+  healthy: boolean; // every network's fullnode is reachable and on the expected chain
+  networks: ChainIdCheck[];
 }
 
 export interface SdkManagerMetrics {
@@ -1,9 +1,6 @@
 import express from "express";
-import { MovementFireblocksApiService } from "./api/api.service";
 import cors from "cors";
-import { BasePath } from "@fireblocks/ts-sdk";
 import dotenv from "dotenv";
-import { ApiServiceConfig } from "./pool/types";
 import router from "./api/router";
 import { swaggerUi, specs } from "./utils/swagger";
 
@@ -12,7 +9,14 @@ dotenv.config();
 
 // Create Express app
 const app = express();
-app.use(express.json());
+// Keep the raw body, Fireblocks webhook signatures are computed over the exact bytes sent
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 app.use(cors());
 
 // Swagger UI setup
@@ -22,34 +26,16 @@ app.get("/api-docs-json", (req, res) => {
   res.send(specs);
 });
 
-const movementFireblocksApiServiceConfig: ApiServiceConfig = {
-  apiKey: process.env.FIREBLOCKS_API_KEY || "",
-  apiSecret: process.env.FIREBLOCKS_SECRET_KEY_PATH || "",
-  basePath: (process.env.FIREBLOCKS_BASE_PATH as BasePath) || BasePath.US,
-  poolConfig: {
-    maxPoolSize: parseInt(process.env.POOL_MAX_SIZE || "100"),
-    idleTimeoutMs: parseInt(process.env.POOL_IDLE_TIMEOUT_MS || "1800000"),
-    cleanupIntervalMs: parseInt(
-      process.env.POOL_CLEANUP_INTERVAL_MS || "300000"
-    ),
-  },
-};
-
 // Validate required environment variables
-if (movementFireblocksApiServiceConfig.apiKey === "") {
+if (!process.env.FIREBLOCKS_API_KEY) {
   console.error("FIREBLOCKS_API_KEY is not set in environment variables");
   throw new Error("InvalidEnvParams : FIREBLOCKS_API_KEY is required");
 }
-if (movementFireblocksApiServiceConfig.apiSecret === "") {
+if (!process.env.FIREBLOCKS_SECRET_KEY_PATH) {
   console.error("FIREBLOCKS_API_SECRET is not set in environment variables");
   throw new Error("InvalidEnvParams : FIREBLOCKS_API_SECRET is required");
 }
 
-// Initialize API service
-const movementFireblocksApiService = new MovementFireblocksApiService(
-  movementFireblocksApiServiceConfig
-);
-
 // Apply routes
 app.use("/api", router);
 
@@ -0,0 +1,174 @@
+/**
+ * Service class that spreads requests over an ordered list of endpoints (e.g. fullnodes or indexers),
+ * failing over to the next endpoint when one returns a transient error and retrying with exponential backoff.
+ *
+ * @remarks
+ * Endpoints that failed are tried last until their cool-down has passed, so a degraded primary endpoint
+ * does not slow down every request. Errors that are not transient, such as a 404 or an invalid request,
+ * are returned at once without trying the other endpoints.
+ */
+import { AptosApiError } from "@aptos-labs/ts-sdk";
+import { endpointConstants } from "../constants";
+import { EndpointHealth } from "./types";
+import { formatErrorMessage } from "../utils/errorHandling";
+
+type EndpointState<TClient> = {
+  url: string;
+  client: TClient;
+  healthy: boolean;
+  unhealthyUntil: number; // epoch milliseconds
+  consecutiveFailures: number;
+  lastError?: string;
+};
+
+const transientErrorCodes = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+];
+
+/**
+ * Error for a non-successful HTTP response of a request made outside the Aptos client.
+ */
+export class EndpointResponseError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "EndpointResponseError";
+    this.status = status;
+  }
+}
+
+/**
+ * Tells whether an error is worth retrying: a 5xx or 429 response, a timeout or a connection failure.
+ * @param error - The error thrown by the request.
+ * @returns True if another attempt may succeed.
+ */
+export const isTransientError = (error: any): boolean => {
+  if (
+    error instanceof AptosApiError ||
+    error instanceof EndpointResponseError
+  ) {
+    return error.status >= 500 || error.status === 429;
+  }
+  if (error?.name === "TimeoutError" || error?.name === "AbortError") {
+    return true;
+  }
+  if (transientErrorCodes.includes(error?.code ?? error?.cause?.code)) {
+    return true;
+  }
+  // Network failures of the global fetch
+  return error instanceof TypeError && error.message === "fetch failed";
+};
+
+export class EndpointService<TClient> {
+  private endpoints: EndpointState<TClient>[];
+
+  constructor(urls: string[], createClient: (url: string) => TClient) {
+    this.endpoints = [...new Set(urls)].map((url) => ({
+      url,
+      client: createClient(url),
+      healthy: true,
+      unhealthyUntil: 0,
+      consecutiveFailures: 0,
+    }));
+  }
+
+  /**
+   * Runs a request against the endpoints in order until one succeeds.
+   * @param operation - The request, called with the client and URL of an endpoint and the attempt number (0 for the first).
+   * @param retry - Whether to retry with exponential backoff once every endpoint failed.
+   * Only pass true for requests that are safe to repeat.
+   * @returns A Promise that resolves to the result of the first successful attempt.
+   * @throws The last transient error once all attempts failed, or the first error that is not transient.
+   */
+  public execute = async <T>(
+    operation: (client: TClient, url: string, attempt: number) => Promise<T>,
+    retry: boolean
+  ): Promise<T> => {
+    const rounds = retry ? endpointConstants.maxRetries + 1 : 1;
+    let attempt = 0;
+    let lastError: unknown;
+    for (let round = 0; round < rounds; round++) {
+      if (round > 0) {
+        await new Promise((resolve) =>
+          setTimeout(
+            resolve,
+            Math.min(
+              endpointConstants.initialBackoffMs * 2 ** (round - 1),
+              endpointConstants.maxBackoffMs
+            )
+          )
+        );
+      }
+      for (const endpoint of this.getOrderedEndpoints()) {
+        try {
+          const result = await operation(
+            endpoint.client,
+            endpoint.url,
+            attempt
+          );
+          this.markHealthy(endpoint);
+          return result;
+        } catch (error) {
+          if (!isTransientError(error)) {
+            throw error;
+          }
+          this.markUnhealthy(endpoint, error);
+          lastError = error;
+        } finally {
+          attempt++;
+        }
+      }
+    }
+    throw lastError;
+  };
+
+  /**
+   * Returns the health of every endpoint, in configured order.
+   */
+  public getHealth = (): EndpointHealth[] => {
+    return this.endpoints.map(
+      ({ url, healthy, consecutiveFailures, lastError }) => ({
+        url,
+        healthy,
+        consecutiveFailures,
+        lastError,
+      })
+    );
+  };
+
+  // Healthy endpoints (or endpoints whose cool-down has passed) first, each group in configured order
+  private getOrderedEndpoints = (): EndpointState<TClient>[] => {
+    const now = Date.now();
+    const available = this.endpoints.filter(
+      (endpoint) => endpoint.healthy || endpoint.unhealthyUntil <= now
+    );
+    const coolingDown = this.endpoints.filter(
+      (endpoint) => !available.includes(endpoint)
+    );
+    return [...available, ...coolingDown];
+  };
+
+  private markHealthy = (endpoint: EndpointState<TClient>): void => {
+    endpoint.healthy = true;
+    endpoint.unhealthyUntil = 0;
+    endpoint.consecutiveFailures = 0;
+  };
+
+  private markUnhealthy = (
+    endpoint: EndpointState<TClient>,
+    error: unknown
+  ): void => {
+    endpoint.healthy = false;
+    endpoint.unhealthyUntil = Date.now() + endpointConstants.cooldownMs;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = formatErrorMessage(error);
+  };
+}
@@ -2,7 +2,7 @@
  * Service class for interacting with the Fireblocks SDK.
  *
  * Provides methods to initialize the Fireblocks SDK, retrieve public keys and Movement addresses
- * by vault ID, and sign transactions using Fireblocks.
+ * by vault ID, create and list vault accounts, and sign transactions using Fireblocks.
  *
  * Handles configuration via environment variables or explicit configuration objects.
  */
@@ -10,30 +10,51 @@ import {
   BasePath,
   Fireblocks,
   SignedMessageSignature,
+  VaultAccount,
 } from "@fireblocks/ts-sdk";
 import { config } from "../config";
 import fs, { readFileSync } from "fs";
 import {
+  cancelSigningRequest,
+  createBatchRawSigningRequest,
+  createRawSigningRequest,
+  createVaultAccount,
   getPublicKeyForDerivationPath,
-  rawSign,
+  getRawSignature,
+  getRawSignatures,
+  getVaultAccountsPage,
 } from "../utils/fireblocks.utils";
 import { deriveAptosAddress } from "../utils/movement.utils";
-import { FireblocksConfig } from "./types";
-import { formatErrorMessage } from "../utils/errorHandling";
+import {
+  CreateVaultArguments,
+  FireblocksConfig,
+  ListVaultsArguments,
+  ProvisionedVault,
+  ProvisionedVaultPage,
+  SigningRequestDetails,
+  SigningWaitOptions,
+  TransactionSigner,
+} from "./types";
+import {
+  formatErrorMessage,
+  SigningTimeoutError,
+} from "../utils/errorHandling";
 
-const secretKeyPath = process.env.FIREBLOCKS_SECRET_KEY_PATH || "";
 const basePath = process.env.FIREBLOCKS_BASE_PATH || BasePath.US;
 
-if (!secretKeyPath) {
-  throw new Error(
-    "FIREBLOCKS_SECRET_KEY_PATH environment variable is not set."
-  );
-}
-
-export class FireblocksService {
+export class FireblocksService implements TransactionSigner {
   private readonly fireblocksSDK: Fireblocks;
+  private readonly signingWaitOptions: SigningWaitOptions;
 
-  constructor(fireblocksConfig?: FireblocksConfig) {
+  /**
+   * @param fireblocksConfig - Optional Fireblocks credentials, read from the environment when omitted.
+   * @param signingWaitOptions - Optional polling configuration and webhook service used to wait for signatures.
+   */
+  constructor(
+    fireblocksConfig?: FireblocksConfig,
+    signingWaitOptions?: SigningWaitOptions
+  ) {
+    this.signingWaitOptions = signingWaitOptions ?? {};
     var privateKey: string;
     if (fireblocksConfig && fireblocksConfig.apiSecret) {
       privateKey =
@@ -42,6 +63,12 @@ export class FireblocksService {
           ? readFileSync(fireblocksConfig.apiSecret, "utf8")
           : fireblocksConfig.apiSecret;
     } else {
+      const secretKeyPath = process.env.FIREBLOCKS_SECRET_KEY_PATH || "";
+      if (!secretKeyPath) {
+        throw new Error(
+          "FIREBLOCKS_SECRET_KEY_PATH environment variable is not set."
+        );
+      }
       privateKey = fs.readFileSync(secretKeyPath, "utf8");
     }
     this.fireblocksSDK = new Fireblocks({
@@ -71,11 +98,13 @@ export class FireblocksService {
    * generates the Aptos movement address from the public key and validates its format.
    *
    * @param vaultID - The Fireblocks vault ID as a string or number. Must be a valid non-negative integer.
+   * @param addressIndex - Optional address index within the vault, 0 by default.
    * @returns A promise that resolves to the derived Aptos movement address as a string (66-character hex string starting with "0x").
    * @throws {Error} If the vault ID is invalid, the public key format is incorrect, the derived address format is incorrect, or if any error occurs during the process.
    */
   public getMovementAddressByVaultID = async (
-    vaultID: string | number
+    vaultID: string | number,
+    addressIndex?: number
   ): Promise<string> => {
     const id = typeof vaultID === "string" ? Number(vaultID) : vaultID;
     if (!Number.isInteger(id) || id < 0) {
@@ -85,7 +114,8 @@ export class FireblocksService {
     try {
       const publicKey = await getPublicKeyForDerivationPath(
         this.fireblocksSDK,
-        vaultID.toString()
+        vaultID.toString(),
+        addressIndex
       );
       if (typeof publicKey !== "string" || publicKey.length !== 64) {
         throw new Error(
@@ -120,11 +150,13 @@ export class FireblocksService {
    * and then retrieves the corresponding public key using the Fireblocks SDK.
    *
    * @param vaultID - The Fireblocks vault ID as a string or number. Must be a valid non-negative integer.
+   * @param addressIndex - Optional address index within the vault, 0 by default.
    * @returns A promise that resolves to the public key as a string.
    * @throws {Error} If the vault ID is invalid or if any error occurs during the process.
    */
   public getPublicKeyByVaultID = async (
-    vaultID: string | number
+    vaultID: string | number,
+    addressIndex?: number
   ): Promise<string> => {
     const id = typeof vaultID === "string" ? Number(vaultID) : vaultID;
     if (!Number.isInteger(id) || id < 0) {
@@ -134,7 +166,8 @@ export class FireblocksService {
     try {
       const publicKey = await getPublicKeyForDerivationPath(
         this.fireblocksSDK,
-        vaultID.toString()
+        vaultID.toString(),
+        addressIndex
       );
 
       return publicKey;
@@ -153,27 +186,285 @@ export class FireblocksService {
    *
    * @param message - The message object to be signed.
    * @param vaultID - The Fireblocks vault ID as a string or number. Must be a valid non-negative integer.
+   * @param signingTimeoutMs - Optional signing timeout of this request, overriding the configured maximum wait.
+   * @param details - Optional note, customer reference ID and external ID of the signing request.
+   * @param addressIndex - Optional address index within the vault whose key signs, 0 by default.
    * @returns A promise that resolves to a SignedMessageSignature object containing the full signature.
+   * @throws {SigningTimeoutError} If the request is still pending after the signing timeout; it is cancelled in Fireblocks.
    * @throws {Error} If the signing process fails or if no signature is returned.
    */
   public rawSignTransaction = async (
     message: any,
-    vaultID: string | number
+    vaultID: string | number,
+    signingTimeoutMs?: number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
   ): Promise<SignedMessageSignature | undefined> => {
     try {
-      const signature = await rawSign(
+      const txId = await createRawSigningRequest(
         message,
         Number(vaultID),
-        this.fireblocksSDK
+        this.fireblocksSDK,
+        details,
+        addressIndex
+      );
+      const signature = await this.waitForSignature(() =>
+        getRawSignature(
+          txId,
+          this.fireblocksSDK,
+          this.getSigningWaitOptions(signingTimeoutMs)
+        )
       );
       if (!signature?.fullSig) {
         throw new Error("No signature returned from rawSign()");
       }
       return signature;
     } catch (error: any) {
+      if (error instanceof SigningTimeoutError) {
+        throw error;
+      }
       throw new Error(
         `Failed to sign transaction: ${formatErrorMessage(error)}`
       );
     }
   };
+
+  /**
+   * Signs several messages through one Fireblocks raw signing request, so they need a single approval.
+   *
+   * @param messages - The message objects to be signed.
+   * @param vaultID - The Fireblocks vault ID as a string or number. Must be a valid non-negative integer.
+   * @param signingTimeoutMs - Optional signing timeout of this request, overriding the configured maximum wait.
+   * @param details - Optional note, customer reference ID and external ID of the signing request.
+   * @param addressIndex - Optional address index within the vault whose key signs, 0 by default.
+   * @returns A promise that resolves to the SignedMessageSignature objects, in the order of `messages`.
+   * @throws {SigningTimeoutError} If the request is still pending after the signing timeout; it is cancelled in Fireblocks.
+   * @throws {Error} If the signing process fails or if a signature is missing for any message.
+   */
+  public rawSignMessages = async (
+    messages: any[],
+    vaultID: string | number,
+    signingTimeoutMs?: number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<SignedMessageSignature[]> => {
+    try {
+      const txId = await createBatchRawSigningRequest(
+        messages,
+        Number(vaultID),
+        this.fireblocksSDK,
+        details,
+        addressIndex
+      );
+      const signatures = await this.waitForSignature(() =>
+        getRawSignatures(
+          txId,
+          messages,
+          this.fireblocksSDK,
+          this.getSigningWaitOptions(signingTimeoutMs)
+        )
+      );
+      return signatures.map((signature, index) => {
+        if (!signature?.fullSig) {
+          throw new Error(`No signature returned for message ${index}`);
+        }
+        return signature;
+      });
+    } catch (error: any) {
+      if (error instanceof SigningTimeoutError) {
+        throw error;
+      }
+      throw new Error(`Failed to sign messages: ${formatErrorMessage(error)}`);
+    }
+  };
+
+  /**
+   * Starts a Fireblocks raw signing request without waiting for it to be approved and signed.
+   *
+   * @param message - The message object to be signed.
+   * @param vaultID - The Fireblocks vault ID as a string or number. Must be a valid non-negative integer.
+   * @param details - Optional note, customer reference ID and external ID of the signing request.
+   * @param addressIndex - Optional address index within the vault whose key signs, 0 by default.
+   * @returns A promise that resolves to the Fireblocks transaction ID of the signing request.
+   * @throws {Error} If the signing request could not be created.
+   */
+  public requestRawSignature = async (
+    message: any,
+    vaultID: string | number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<string> => {
+    try {
+      return await createRawSigningRequest(
+        message,
+        Number(vaultID),
+        this.fireblocksSDK,
+        details,
+        addressIndex
+      );
+    } catch (error: any) {
+      throw new Error(
+        `Failed to request signature: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Waits for a previously created raw signing request to complete.
+   *
+   * @param txId - The Fireblocks transaction ID returned by {@link requestRawSignature}.
+   * @param signingTimeoutMs - Optional signing timeout of this request, overriding the configured maximum wait.
+   * @returns A promise that resolves to a SignedMessageSignature object containing the full signature.
+   * @throws {SigningTimeoutError} If the request is still pending after the signing timeout; it is cancelled in Fireblocks.
+   * @throws {Error} If the signing request fails or if no signature is returned.
+   */
+  public waitForRawSignature = async (
+    txId: string,
+    signingTimeoutMs?: number
+  ): Promise<SignedMessageSignature> => {
+    try {
+      const signature = await this.waitForSignature(() =>
+        getRawSignature(
+          txId,
+          this.fireblocksSDK,
+          this.getSigningWaitOptions(signingTimeoutMs)
+        )
+      );
+      if (!signature?.fullSig) {
+        throw new Error("No signature returned from Fireblocks");
+      }
+      return signature;
+    } catch (error: any) {
+      if (error instanceof SigningTimeoutError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to get signature for ${txId}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Cancels a raw signing request that has not been signed yet.
+   *
+   * @param txId - The Fireblocks transaction ID returned by {@link requestRawSignature}.
+   * @returns A promise that resolves to true if Fireblocks accepted the cancellation.
+   * @throws {Error} If the cancellation request fails, e.g. because the request was already signed.
+   */
+  public cancelSigningRequest = async (txId: string): Promise<boolean> => {
+    try {
+      return await cancelSigningRequest(txId, this.fireblocksSDK);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to cancel signing request: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Creates a Fireblocks vault account and derives its Movement address, to onboard a customer in one step.
+   *
+   * @param createVaultArguments - The name, customer reference ID and hidden-on-UI flag of the vault.
+   * @param idempotencyKey - Optional key that keeps Fireblocks from creating the vault twice when a request is retried.
+   * @returns A promise that resolves to the {@link ProvisionedVault} with the vault account ID, Movement address and public key.
+   * @throws {Error} If the vault account cannot be created, or if its address cannot be derived, in which case
+   * the error names the ID of the vault account that was created.
+   */
+  public createVault = async (
+    createVaultArguments: CreateVaultArguments,
+    idempotencyKey?: string
+  ): Promise<ProvisionedVault> => {
+    let vaultAccount: VaultAccount;
+    try {
+      vaultAccount = await createVaultAccount(
+        this.fireblocksSDK,
+        createVaultArguments,
+        idempotencyKey
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to create vault: ${formatErrorMessage(error)}`);
+    }
+    try {
+      return await this.toProvisionedVault(vaultAccount);
+    } catch (error: any) {
+      const reason = formatErrorMessage(error);
+      throw new Error(
+        `Created vault account ${vaultAccount.id} but failed to derive its Movement address: ${reason}`
+      );
+    }
+  };
+
+  /**
+   * Lists a page of Fireblocks vault accounts with their Movement addresses.
+   *
+   * @param listVaultsArguments - Optional name prefix, page size and paging cursor.
+   * @returns A promise that resolves to the {@link ProvisionedVaultPage} with the cursors of the neighbouring pages.
+   * @throws {Error} If the vault accounts cannot be listed or an address cannot be derived.
+   */
+  public listVaults = async (
+    listVaultsArguments: ListVaultsArguments = {}
+  ): Promise<ProvisionedVaultPage> => {
+    try {
+      const page = await getVaultAccountsPage(
+        this.fireblocksSDK,
+        listVaultsArguments
+      );
+      return {
+        vaults: await Promise.all(
+          (page.accounts ?? []).map(this.toProvisionedVault)
+        ),
+        before: page.paging?.before,
+        after: page.paging?.after,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list vaults: ${formatErrorMessage(error)}`);
+    }
+  };
+
+  private toProvisionedVault = async (
+    vaultAccount: VaultAccount
+  ): Promise<ProvisionedVault> => {
+    const vaultAccountId = String(vaultAccount.id);
+    const publicKey = await this.getPublicKeyByVaultID(vaultAccountId);
+    return {
+      vaultAccountId,
+      name: vaultAccount.name,
+      customerRefId: vaultAccount.customerRefId,
+      hiddenOnUI: vaultAccount.hiddenOnUI ?? false,
+      address: deriveAptosAddress(publicKey),
+      publicKey,
+    };
+  };
+
+  private getSigningWaitOptions = (
+    signingTimeoutMs?: number
+  ): SigningWaitOptions => {
+    if (signingTimeoutMs === undefined) {
+      return this.signingWaitOptions;
+    }
+    return {
+      ...this.signingWaitOptions,
+      polling: {
+        ...this.signingWaitOptions.polling,
+        maxWaitMs: signingTimeoutMs,
+      },
+    };
+  };
+
+  // Cancels timed-out requests in Fireblocks, so they cannot be approved and signed after the caller gave up
+  private waitForSignature = async <T>(wait: () => Promise<T>): Promise<T> => {
+    try {
+      return await wait();
+    } catch (error) {
+      if (error instanceof SigningTimeoutError) {
+        await this.cancelSigningRequest(error.txId).catch((cancelError) =>
+          console.error(
+            `Failed to cancel timed out signing request ${error.txId}:`,
+            cancelError
+          )
+        );
+      }
+      throw error;
+    }
+  };
 }
@@ -0,0 +1,550 @@
+/**
+ * Service class for the two-phase transaction lifecycle.
+ *
+ * Splits the blocking create-transaction flow into separate prepare, sign and submit steps
+ * so that callers can poll the transaction status while a Fireblocks approval is pending
+ * instead of holding a connection open. Progress is tracked in a {@link TransactionStore},
+ * which also lets in-flight transactions be resumed after a restart.
+ */
+import { MovementService } from "./movement.service";
+import { SequenceNumberService } from "./sequence.service";
+import { CreateTransactionArguments, TransactionSigner } from "./types";
+import {
+  TransactionRecord,
+  TransactionStatus,
+  TransactionStore,
+} from "../store/types";
+import {
+  buildTransactionFromArguments,
+  createTransactionRecord,
+  deserializeTransaction,
+  findIdempotentTransaction,
+  getSigningRequestDetails,
+  requestRawSignatures,
+  reserveSequenceNumber,
+  resolveFeePayerAccount,
+  waitForRawSignatures,
+} from "../utils/movement.utils";
+import { checkSignature } from "../utils/fireblocks.utils";
+import {
+  formatErrorMessage,
+  IdempotencyKeyMismatchError,
+  SigningTimeoutError,
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../utils/errorHandling";
+
+export class TransactionLifecycleService {
+  private readonly movementService: MovementService;
+  private readonly signer: TransactionSigner;
+  private readonly transactionStore: TransactionStore;
+  private readonly sequenceNumberService?: SequenceNumberService;
+
+  constructor(
+    movementService: MovementService,
+    signer: TransactionSigner,
+    transactionStore: TransactionStore,
+    sequenceNumberService?: SequenceNumberService
+  ) {
+    this.movementService = movementService;
+    this.signer = signer;
+    this.transactionStore = transactionStore;
+    this.sequenceNumberService = sequenceNumberService;
+  }
+
+  /**
+   * Builds and BCS-serializes a transaction and stores it as prepared.
+   * A request with the idempotency key of an earlier transaction returns that transaction instead.
+   * @param createTransactionArguments - The transaction request to prepare.
+   * @returns A Promise that resolves to the stored {@link TransactionRecord}, including the signing message hex.
+   * @throws {IdempotencyKeyMismatchError} If the idempotency key was used for another request.
+   * @throws Will throw an error if building, simulating or serializing the transaction fails.
+   */
+  public prepareTransaction = async (
+    createTransactionArguments: CreateTransactionArguments
+  ): Promise<TransactionRecord> => {
+    const {
+      movementAddress,
+      movementPublicKey,
+      simulate,
+      feePayerVaultAccountId,
+      idempotencyKey,
+    } = createTransactionArguments;
+    let transactionArguments = createTransactionArguments;
+    try {
+      if (idempotencyKey) {
+        const previous = await findIdempotentTransaction(
+          this.transactionStore,
+          createTransactionArguments
+        );
+        if (previous) {
+          return previous;
+        }
+      }
+      const feePayer =
+        feePayerVaultAccountId !== undefined
+          ? await resolveFeePayerAccount(this.signer, feePayerVaultAccountId)
+          : undefined;
+      transactionArguments = await reserveSequenceNumber(
+        createTransactionArguments
+      );
+      const transaction = await buildTransactionFromArguments(
+        transactionArguments,
+        feePayer
+      );
+      if (simulate) {
+        const simulation = await this.movementService.simulateTransaction(
+          transaction,
+          movementPublicKey,
+          feePayer?.publicKey
+        );
+        if (!simulation.success) {
+          throw new Error(
+            `Transaction simulation failed with VM status: ${simulation.vmStatus}`
+          );
+        }
+      }
+      const signingMessage =
+        this.movementService.serializeTransaction(transaction);
+      const record = createTransactionRecord(
+        createTransactionArguments,
+        transaction,
+        signingMessage,
+        false,
+        feePayer
+      );
+      await this.transactionStore.save(record);
+      return record;
+    } catch (error: any) {
+      if (
+        createTransactionArguments.accountSequenceNumber === undefined &&
+        transactionArguments.accountSequenceNumber !== undefined
+      ) {
+        this.sequenceNumberService?.releaseSequenceNumber(
+          movementAddress,
+          BigInt(transactionArguments.accountSequenceNumber)
+        );
+      }
+      if (error instanceof IdempotencyKeyMismatchError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to prepare transaction: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Starts Fireblocks raw signing for a prepared transaction.
+   * The signature is collected in the background and the record moves to `signed` once it is available.
+   * @param id - The ID of the prepared transaction.
+   * @param signingTimeoutMs - Optional signing timeout, after which the signing request is cancelled and the record moves to `cancelled`.
+   * @returns A Promise that resolves to the updated {@link TransactionRecord} holding the Fireblocks transaction ID.
+   * @throws {TransactionNotFoundError} If the transaction does not exist.
+   * @throws {TransactionStateError} If the transaction is not in the `prepared` state, e.g. because a concurrent request
+   * already started signing it, or has expired.
+   * @throws Will throw an error if the signing request fails.
+   */
+  public signPreparedTransaction = async (
+    id: string,
+    signingTimeoutMs?: number
+  ): Promise<TransactionRecord> => {
+    const record = await this.getRecordInStatus(id, TransactionStatus.PREPARED);
+    const transaction = deserializeTransaction(record.rawTransaction);
+    const expiresAt = Number(
+      transaction.rawTransaction.expiration_timestamp_secs
+    );
+    if (expiresAt <= Math.floor(Date.now() / 1000)) {
+      await this.transactionStore.update(
+        id,
+        {
+          status: TransactionStatus.FAILED,
+          error: "Transaction expired before it was signed",
+        },
+        TransactionStatus.PREPARED
+      );
+      await this.settleSequenceNumber(id, false);
+      throw new TransactionStateError(
+        id,
+        `Transaction ${id} expired before it was signed`
+      );
+    }
+
+    // A concurrent request that already started signing makes this update fail, so Fireblocks is asked only once
+    await this.transactionStore.update(
+      id,
+      {
+        status: TransactionStatus.SIGNING,
+        signingTimeoutMs: signingTimeoutMs ?? record.signingTimeoutMs,
+      },
+      TransactionStatus.PREPARED
+    );
+    try {
+      const signingMessage = Buffer.from(record.signingMessage, "hex");
+      const [details, feePayerDetails] = await getSigningRequestDetails(
+        transaction,
+        this.movementService,
+        record
+      );
+      const [fireblocksTxId, feePayerFireblocksTxId] =
+        await requestRawSignatures(this.signer, signingMessage, [
+          {
+            vaultAccountId: record.vaultAccountId,
+            details,
+            addressIndex: record.addressIndex,
+          },
+          ...(record.feePayerVaultAccountId !== undefined
+            ? [
+                {
+                  vaultAccountId: record.feePayerVaultAccountId,
+                  details: feePayerDetails,
+                },
+              ]
+            : []),
+        ]);
+      const updated = await this.transactionStore.update(id, {
+        fireblocksTxId,
+        feePayerFireblocksTxId,
+      });
+      this.trackSignature(updated);
+      return updated;
+    } catch (error: any) {
+      await this.transactionStore.update(id, {
+        status: TransactionStatus.FAILED,
+        error: formatErrorMessage(error),
+      });
+      await this.settleSequenceNumber(id, false);
+      throw new Error(
+        `Failed to sign transaction ${id}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Submits a signed transaction to the Movement blockchain.
+   * The commit is awaited in the background and the record moves to `committed` or `failed`.
+   * @param id - The ID of the signed transaction.
+   * @returns A Promise that resolves to the updated {@link TransactionRecord} holding the transaction hash.
+   * @throws {TransactionNotFoundError} If the transaction does not exist.
+   * @throws {TransactionStateError} If the transaction is not in the `signed` state.
+   * @throws Will throw an error if the submission fails.
+   */
+  public submitSignedTransaction = async (
+    id: string
+  ): Promise<TransactionRecord> => {
+    const record = await this.getRecordInStatus(id, TransactionStatus.SIGNED);
+    try {
+      const transaction = deserializeTransaction(record.rawTransaction);
+      const senderAuthenticator =
+        this.movementService.createSenderAuthenticator(
+          record.senderPublicKey,
+          Buffer.from(record.signature ?? "", "hex")
+        );
+      const feePayerAuthenticator = record.feePayerPublicKey
+        ? this.movementService.createSenderAuthenticator(
+            record.feePayerPublicKey,
+            Buffer.from(record.feePayerSignature ?? "", "hex")
+          )
+        : undefined;
+      const submittedTx = await this.movementService.submitTransaction({
+        transaction,
+        senderAuthenticator,
+        feePayerAuthenticator,
+      });
+      const updated = await this.transactionStore.update(id, {
+        status: TransactionStatus.SUBMITTED,
+        transactionHash: submittedTx.hash,
+      });
+      this.trackCommit(id, submittedTx.hash);
+      return updated;
+    } catch (error: any) {
+      await this.transactionStore.update(id, {
+        status: TransactionStatus.FAILED,
+        error: formatErrorMessage(error),
+      });
+      await this.settleSequenceNumber(id, false);
+      throw new Error(
+        `Failed to submit transaction ${id}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Cancels a transaction that has not been submitted yet, e.g. one stuck in Fireblocks approval.
+   * The record is cancelled first, so a signature arriving afterwards is ignored, then the reserved sequence
+   * number is given back and pending Fireblocks signing requests are cancelled. Signing requests that cannot
+   * be cancelled are logged.
+   * @param id - The ID of the transaction.
+   * @returns A Promise that resolves to the {@link TransactionRecord} in the `cancelled` state.
+   * @throws {TransactionNotFoundError} If the transaction does not exist.
+   * @throws {TransactionStateError} If the transaction was already submitted or settled.
+   * @throws Will throw an error if the record cannot be updated.
+   */
+  public cancelTransaction = async (id: string): Promise<TransactionRecord> => {
+    const record = await this.transactionStore.get(id);
+    if (!record) {
+      throw new TransactionNotFoundError(id);
+    }
+    const cancellable = [
+      TransactionStatus.PREPARED,
+      TransactionStatus.SIGNING,
+      TransactionStatus.SIGNED,
+    ];
+    if (!cancellable.includes(record.status)) {
+      throw new TransactionStateError(
+        id,
+        `Transaction ${id} is ${record.status}, only ${cancellable.join(
+          ", "
+        )} transactions can be cancelled`
+      );
+    }
+    try {
+      // Fails if the transaction moved on meanwhile, e.g. its signing request was rejected or it was submitted
+      const updated = await this.transactionStore.update(
+        id,
+        {
+          status: TransactionStatus.CANCELLED,
+          error: "Transaction was cancelled by an operator",
+        },
+        record.status
+      );
+      await this.settleSequenceNumber(id, false);
+      if (record.status === TransactionStatus.SIGNING) {
+        await Promise.all(
+          [record.fireblocksTxId, record.feePayerFireblocksTxId]
+            .filter((txId): txId is string => txId !== undefined)
+            .map((txId) =>
+              this.signer
+                .cancelSigningRequest(txId)
+                .catch((error) =>
+                  console.error(
+                    `Failed to cancel signing request ${txId} of transaction ${id}: ${formatErrorMessage(
+                      error
+                    )}`
+                  )
+                )
+            )
+        );
+      }
+      return updated;
+    } catch (error: any) {
+      if (error instanceof TransactionStateError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to cancel transaction ${id}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Retrieves the current state of a transaction.
+   * @param id - The ID of the transaction.
+   * @returns A Promise that resolves to the {@link TransactionRecord} or undefined if it does not exist.
+   */
+  public getTransaction = async (
+    id: string
+  ): Promise<TransactionRecord | undefined> => {
+    return this.transactionStore.get(id);
+  };
+
+  /**
+   * Continues an in-flight transaction from the step recorded in the store, e.g. after a restart.
+   * Signatures and commits that are still pending are awaited in the background.
+   * Transactions that were interrupted before a Fireblocks signing request was recorded are marked as failed,
+   * since the request may or may not have reached Fireblocks and must not be repeated blindly.
+   * @param record - The stored transaction to resume.
+   * @returns A Promise that resolves once the transaction has been handed over to the matching step.
+   */
+  public resumeTransaction = async (
+    record: TransactionRecord
+  ): Promise<void> => {
+    switch (record.status) {
+      case TransactionStatus.PREPARED: {
+        // Two-phase transactions stay prepared until the client signs them or they expire
+        const expiresAt = Number(
+          deserializeTransaction(record.rawTransaction).rawTransaction
+            .expiration_timestamp_secs
+        );
+        if (record.autoSubmit) {
+          await this.transactionStore.update(
+            record.id,
+            {
+              status: TransactionStatus.FAILED,
+              error: "Transaction was interrupted before it was signed",
+            },
+            TransactionStatus.PREPARED
+          );
+        } else if (expiresAt <= Math.floor(Date.now() / 1000)) {
+          await this.transactionStore.update(
+            record.id,
+            {
+              status: TransactionStatus.FAILED,
+              error: "Transaction expired before it was signed",
+            },
+            TransactionStatus.PREPARED
+          );
+          await this.settleSequenceNumber(record.id, false);
+        }
+        return;
+      }
+      case TransactionStatus.SIGNING:
+        if (
+          !record.fireblocksTxId ||
+          (record.feePayerVaultAccountId !== undefined &&
+            !record.feePayerFireblocksTxId)
+        ) {
+          await this.transactionStore.update(record.id, {
+            status: TransactionStatus.FAILED,
+            error:
+              "Transaction was interrupted before the signing request was recorded",
+          });
+          return;
+        }
+        this.trackSignature(record);
+        return;
+      case TransactionStatus.SIGNED:
+        if (record.autoSubmit) {
+          await this.submitSignedTransaction(record.id);
+        }
+        return;
+      case TransactionStatus.SUBMITTED:
+        if (record.transactionHash) {
+          this.trackCommit(record.id, record.transactionHash);
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  private getRecordInStatus = async (
+    id: string,
+    status: TransactionStatus
+  ): Promise<TransactionRecord> => {
+    const record = await this.transactionStore.get(id);
+    if (!record) {
+      throw new TransactionNotFoundError(id);
+    }
+    if (record.status !== status) {
+      throw new TransactionStateError(
+        id,
+        `Transaction ${id} is ${record.status}, expected it to be ${status}`
+      );
+    }
+    return record;
+  };
+
+  private trackSignature = (record: TransactionRecord): void => {
+    const {
+      id,
+      fireblocksTxId,
+      feePayerFireblocksTxId,
+      autoSubmit,
+      signingTimeoutMs,
+    } = record;
+    waitForRawSignatures(
+      this.signer,
+      feePayerFireblocksTxId
+        ? [fireblocksTxId ?? "", feePayerFireblocksTxId]
+        : [fireblocksTxId ?? ""],
+      signingTimeoutMs
+    )
+      .then(async ([signature, feePayerSignature]) => {
+        // An operator may have cancelled the transaction while it was being signed
+        const current = await this.transactionStore.get(id);
+        if (current?.status !== TransactionStatus.SIGNING) {
+          return;
+        }
+        await this.transactionStore.update(
+          id,
+          {
+            status: TransactionStatus.SIGNED,
+            signature: checkSignature(signature).toString("hex"),
+            feePayerSignature: feePayerFireblocksTxId
+              ? checkSignature(feePayerSignature).toString("hex")
+              : undefined,
+          },
+          TransactionStatus.SIGNING
+        );
+        if (autoSubmit) {
+          await this.submitSignedTransaction(id);
+        }
+      })
+      .catch(async (error) => {
+        // submitSignedTransaction and cancelTransaction already record their own outcome and settle the sequence number
+        const current = await this.transactionStore.get(id);
+        if (current?.status !== TransactionStatus.SIGNING) {
+          return;
+        }
+        try {
+          await this.transactionStore.update(
+            id,
+            {
+              status:
+                error instanceof SigningTimeoutError
+                  ? TransactionStatus.CANCELLED
+                  : TransactionStatus.FAILED,
+              error: formatErrorMessage(error),
+            },
+            TransactionStatus.SIGNING
+          );
+        } catch (storeError) {
+          if (storeError instanceof TransactionStateError) {
+            return; // cancelled by an operator meanwhile
+          }
+          throw storeError;
+        }
+        await this.settleSequenceNumber(id, false);
+      })
+      .catch((error) =>
+        console.error(`Failed to update transaction ${id}:`, error)
+      );
+  };
+
+  private trackCommit = (id: string, transactionHash: string): void => {
+    this.movementService
+      .waitForTransaction({ transactionHash })
+      .then((response) =>
+        this.transactionStore.update(id, {
+          status: TransactionStatus.COMMITTED,
+          vmStatus: "vm_status" in response ? response.vm_status : undefined,
+        })
+      )
+      .catch((error) =>
+        this.transactionStore.update(id, {
+          status: TransactionStatus.FAILED,
+          error: formatErrorMessage(error),
+        })
+      )
+      // A submitted transaction may have used its sequence number even if it failed
+      .then(() => this.settleSequenceNumber(id, true))
+      .catch((error) =>
+        console.error(`Failed to update transaction ${id}:`, error)
+      );
+  };
+
+  // Confirms or gives back the sequence number reserved for a transaction, if any
+  private settleSequenceNumber = async (
+    id: string,
+    used: boolean
+  ): Promise<void> => {
+    const record = await this.transactionStore.get(id);
+    if (!this.sequenceNumberService || !record) {
+      return;
+    }
+    const sequenceNumber = deserializeTransaction(record.rawTransaction)
+      .rawTransaction.sequence_number;
+    if (used) {
+      this.sequenceNumberService.confirmSequenceNumber(
+        record.senderAddress,
+        sequenceNumber
+      );
+    } else {
+      this.sequenceNumberService.releaseSequenceNumber(
+        record.senderAddress,
+        sequenceNumber
+      );
+    }
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Signer that keeps deterministic Ed25519 keys in memory instead of signing with Fireblocks.
+ *
+ * @remarks
+ * Each vault account ID and address index gets its own key, derived from a seed, so the same vault
+ * address always has the same Movement address. This lets full transfer flows run offline against a local Movement node in tests.
+ * Anyone who knows the seed can derive the keys, so accounts of this signer must never hold real funds.
+ */
+import { randomUUID } from "crypto";
+import { sha3_256 } from "js-sha3";
+import { Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { SignedMessageSignature } from "@fireblocks/ts-sdk";
+import { derivationPath, localSignerConstants } from "../constants";
+import { SigningRequestDetails, TransactionSigner } from "./types";
+import { deriveAptosAddress } from "../utils/movement.utils";
+
+/**
+ * Derives a deterministic Ed25519 key from a seed and a BIP44 derivation path, the same way for the
+ * {@link LocalSigner} and the Fireblocks emulator.
+ * @param seed - The seed the keys are derived from.
+ * @param derivationPath - The derivation path, e.g. [44, 637, vaultAccountId, 0, 0].
+ * @returns The {@link Ed25519PrivateKey} of the path.
+ */
+export const deriveLocalPrivateKey = (
+  seed: string,
+  derivationPath: number[]
+): Ed25519PrivateKey => {
+  return new Ed25519PrivateKey(
+    Buffer.from(sha3_256(`${seed}:${derivationPath.join(",")}`), "hex")
+  );
+};
+
+type LocalSigningRequest = {
+  messages: Uint8Array[];
+  vaultID: string;
+  addressIndex: number;
+  externalTxId?: string;
+};
+
+export class LocalSigner implements TransactionSigner {
+  private readonly seed: string;
+  private requests: Map<string, LocalSigningRequest> = new Map();
+
+  /**
+   * @param seed - Optional seed the vault keys are derived from, a fixed public seed by default.
+   */
+  constructor(seed?: string) {
+    this.seed = seed ?? localSignerConstants.defaultSeed;
+  }
+
+  /**
+   * Returns the Ed25519 private key of a vault account, e.g. to fund or inspect its account in tests.
+   * @param vaultID - The vault account ID.
+   * @param addressIndex - Optional address index within the vault, 0 by default.
+   * @returns The {@link Ed25519PrivateKey} of the vault address.
+   */
+  public getPrivateKey = (
+    vaultID: string | number,
+    addressIndex: number = derivationPath.addressIndex
+  ): Ed25519PrivateKey => {
+    return deriveLocalPrivateKey(this.seed, [
+      derivationPath.purpose,
+      derivationPath.coinType,
+      Number(this.parseVaultID(vaultID)),
+      derivationPath.change,
+      addressIndex,
+    ]);
+  };
+
+  public getPublicKeyByVaultID = async (
+    vaultID: string | number,
+    addressIndex?: number
+  ): Promise<string> => {
+    return this.getPrivateKey(vaultID, addressIndex)
+      .publicKey()
+      .toString()
+      .slice(2);
+  };
+
+  public getMovementAddressByVaultID = async (
+    vaultID: string | number,
+    addressIndex?: number
+  ): Promise<string> => {
+    return deriveAptosAddress(
+      await this.getPublicKeyByVaultID(vaultID, addressIndex)
+    );
+  };
+
+  public rawSignTransaction = async (
+    message: any,
+    vaultID: string | number,
+    _signingTimeoutMs?: number,
+    _details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<SignedMessageSignature | undefined> => {
+    return this.sign(message, vaultID, addressIndex);
+  };
+
+  public rawSignMessages = async (
+    messages: any[],
+    vaultID: string | number,
+    _signingTimeoutMs?: number,
+    _details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<SignedMessageSignature[]> => {
+    return messages.map((message) => this.sign(message, vaultID, addressIndex));
+  };
+
+  /**
+   * Records a signing request that is signed once its signature is collected, like a Fireblocks request
+   * that is approved at once. A request with the external ID of an earlier one returns that request.
+   * @returns A promise that resolves to the ID of the signing request.
+   * @throws {Error} If the external ID belongs to a request of other messages or another vault address.
+   */
+  public requestRawSignature = async (
+    message: any,
+    vaultID: string | number,
+    details?: SigningRequestDetails,
+    addressIndex: number = derivationPath.addressIndex
+  ): Promise<string> => {
+    const request: LocalSigningRequest = {
+      messages: [Uint8Array.from(message)],
+      vaultID: this.parseVaultID(vaultID),
+      addressIndex,
+      externalTxId: details?.externalTxId,
+    };
+    const existing = [...this.requests].find(
+      ([, { externalTxId }]) =>
+        externalTxId !== undefined && externalTxId === request.externalTxId
+    );
+    if (existing) {
+      const [
+        requestId,
+        { messages, vaultID: existingVaultID, addressIndex: existingIndex },
+      ] = existing;
+      if (
+        existingVaultID !== request.vaultID ||
+        existingIndex !== request.addressIndex ||
+        Buffer.compare(messages[0], request.messages[0]) !== 0
+      ) {
+        throw new Error(
+          `External ID ${request.externalTxId} already belongs to a signing request of other messages or another vault address`
+        );
+      }
+      return requestId;
+    }
+    const requestId = randomUUID();
+    this.requests.set(requestId, request);
+    return requestId;
+  };
+
+  public waitForRawSignature = async (
+    requestId: string
+  ): Promise<SignedMessageSignature> => {
+    const request = this.requests.get(requestId);
+    if (!request) {
+      throw new Error(
+        `Failed to get signature for ${requestId}: unknown or cancelled signing request`
+      );
+    }
+    return this.sign(
+      request.messages[0],
+      request.vaultID,
+      request.addressIndex
+    );
+  };
+
+  public cancelSigningRequest = async (requestId: string): Promise<boolean> => {
+    return this.requests.delete(requestId);
+  };
+
+  private sign = (
+    message: any,
+    vaultID: string | number,
+    addressIndex?: number
+  ): SignedMessageSignature => {
+    const signature = this.getPrivateKey(vaultID, addressIndex).sign(
+      Uint8Array.from(message)
+    );
+    return { fullSig: signature.toString().slice(2) };
+  };
+
+  private parseVaultID = (vaultID: string | number): string => {
+    const id = typeof vaultID === "string" ? Number(vaultID) : vaultID;
+    if (!Number.isInteger(id) || id < 0) {
+      throw new Error("vaultID must be a valid non-negative integer.");
+    }
+    return String(id);
+  };
+}
@@ -7,60 +7,179 @@
  * This service abstracts the complexity of direct SDK usage and provides utility methods for common blockchain operations.
  */
 import {
+  AccountAddress,
   AccountAuthenticator,
+  AccountData,
   Aptos,
+  AptosApiError,
   AptosConfig,
+  APTOS_COIN,
   CommittedTransactionResponse,
+  Ed25519PublicKey,
   GetAccountCoinsDataResponse,
+  generateUserTransactionHash,
   Network,
   PendingTransactionResponse,
   SimpleTransaction,
 } from "@aptos-labs/ts-sdk";
 import {
+  AccountStatus,
+  BatchTransactionResult,
   BuildTransactionArguments,
+  ChainIdCheck,
   CreateTransactionArguments,
+  EndpointsHealth,
+  FeeEstimate,
+  GasPrices,
+  GasPricingPolicy,
+  GasPriority,
   GetAccountCoinsDataArguments,
   GetAllBalancesResponse,
   GetBalanceArguments,
   GetMoveBalanceResponse,
   GetTransactionHistoryResponse,
   GetTransactionHistoyArguments,
+  MoveTransactionArguments,
   MovementConfig,
+  RecipientCheck,
+  SimulateTransactionResponse,
   SubmitTransactionArguments,
+  TransferResponse,
   WaitForTransactionArguments,
 } from "./types";
 import {
+  createBatchTransactions,
   createSenderAuthenticator,
   createTransaction,
+  deriveAptosAddress,
+  estimateFees,
+  formatSimulationResponse,
+  resolveSendAllArguments,
   serializeTransaction,
+  simulateTransaction,
 } from "../utils/movement.utils";
-import { AptosSDKConstants, getTransactionConstants } from "../constants";
-import { formatErrorMessage } from "../utils/errorHandling";
-
-const fullnodeURL =
-  process.env.APTOS_FULLNODE_URL || AptosSDKConstants.fullnodeUrl;
-const indexerURL =
-  process.env.APTOS_INDEXER_URL || AptosSDKConstants.indexerUrl;
-
-if (!indexerURL || !fullnodeURL) {
-  throw new Error(
-    "Aptos configuration is not set. Please check APTOS_FULLNODE_URL and APTOS_NETWORK environment variables."
-  );
-}
+import { endpointConstants, getTransactionConstants } from "../constants";
+import {
+  formatErrorMessage,
+  IdempotencyKeyMismatchError,
+  SigningTimeoutError,
+} from "../utils/errorHandling";
+import { formatAmount } from "../utils/amount.utils";
+import { getMovementConfig } from "../utils/network.utils";
+import { EndpointResponseError, EndpointService } from "./endpoint.service";
 
 export class MovementService {
-  private readonly MovementSDK: Aptos;
-  private readonly MovementConfig: AptosConfig;
+  private readonly fullnodes: EndpointService<Aptos>;
+  private readonly indexers: EndpointService<Aptos>;
+  private readonly networkConfig: MovementConfig;
+  private readonly assetDecimals: Map<string, number> = new Map();
+  private readonly assetSymbols: Map<string, string> = new Map();
 
   constructor(movementConfig?: MovementConfig) {
-    this.MovementConfig = new AptosConfig({
-      network: Network.CUSTOM,
-      fullnode: movementConfig ? movementConfig.fullnodeUrl : fullnodeURL,
-      indexer: movementConfig ? movementConfig.indexerUrl : indexerURL,
-    });
-    this.MovementSDK = new Aptos(this.MovementConfig);
+    this.networkConfig = movementConfig ?? getMovementConfig();
+    const {
+      fullnodeUrl,
+      indexerUrl,
+      fallbackFullnodeUrls = [],
+      fallbackIndexerUrls = [],
+    } = this.networkConfig;
+    const createClient = (fullnode: string, indexer: string): Aptos =>
+      new Aptos(
+        new AptosConfig({ network: Network.CUSTOM, fullnode, indexer })
+      );
+    // Fullnode requests only use the fullnode of a client and indexer queries only its indexer
+    this.fullnodes = new EndpointService(
+      [fullnodeUrl, ...fallbackFullnodeUrls],
+      (url) => createClient(url, indexerUrl)
+    );
+    this.indexers = new EndpointService(
+      [indexerUrl, ...fallbackIndexerUrls],
+      (url) => createClient(fullnodeUrl, url)
+    );
   }
 
+  /**
+   * Returns the health of the fullnode and indexer endpoints, in failover order.
+   * @returns The {@link EndpointsHealth} of the fullnodes and indexers.
+   */
+  public getEndpointHealth = (): EndpointsHealth => {
+    return {
+      fullnodes: this.fullnodes.getHealth(),
+      indexers: this.indexers.getHealth(),
+    };
+  };
+
+  /**
+   * Returns the network profile this service is connected to.
+   * @returns The {@link MovementConfig} with the network name, endpoints and expected chain ID.
+   */
+  public getNetworkConfig = (): MovementConfig => {
+    return { ...this.networkConfig };
+  };
+
+  /**
+   * Compares the chain ID reported by the fullnode with the one expected by the network profile.
+   * @returns A Promise that resolves to a {@link ChainIdCheck}, unhealthy if the IDs differ or the fullnode is unreachable.
+   */
+  public checkChainId = async (): Promise<ChainIdCheck> => {
+    const { network, chainId: expectedChainId } = this.networkConfig;
+    let fullnodeUrl = this.networkConfig.fullnodeUrl;
+    try {
+      const ledgerInfo = await this.fullnodes.execute(async (client, url) => {
+        fullnodeUrl = url;
+        return client.getLedgerInfo();
+      }, false);
+      const healthy =
+        expectedChainId === undefined ||
+        ledgerInfo.chain_id === expectedChainId;
+      return {
+        network,
+        fullnodeUrl,
+        expectedChainId,
+        chainId: ledgerInfo.chain_id,
+        ledgerVersion: ledgerInfo.ledger_version,
+        healthy,
+        error: healthy
+          ? undefined
+          : `Fullnode reports chain ID ${ledgerInfo.chain_id}, expected ${expectedChainId}`,
+        endpoints: this.getEndpointHealth(),
+      };
+    } catch (error: any) {
+      return {
+        network,
+        fullnodeUrl,
+        expectedChainId,
+        healthy: false,
+        error: `Failed to get ledger info: ${formatErrorMessage(error)}`,
+        endpoints: this.getEndpointHealth(),
+      };
+    }
+  };
+
+  /**
+   * Ensures the fullnode belongs to the configured network before any transaction is signed.
+   * @throws Will throw an error if the chain ID differs from the network profile or cannot be fetched.
+   */
+  public verifyChainId = async (): Promise<void> => {
+    const check = await this.checkChainId();
+    if (!check.healthy) {
+      throw new Error(
+        `Chain ID check failed for ${check.network} at ${check.fullnodeUrl}: ${check.error}`
+      );
+    }
+  };
+
+  // Refuses transactions built for another chain, e.g. through a misconfigured fullnode URL
+  private assertChainId = (transaction: SimpleTransaction): void => {
+    const { network, chainId: expectedChainId } = this.networkConfig;
+    const chainId = transaction.rawTransaction.chain_id.chainId;
+    if (expectedChainId !== undefined && chainId !== expectedChainId) {
+      throw new Error(
+        `Transaction targets chain ID ${chainId}, but network ${network} expects chain ID ${expectedChainId}`
+      );
+    }
+  };
+
   /**
    *  Builds a transaction using the Movement SDK.
    *  This method prepares a transaction based on the provided params.
@@ -74,12 +193,17 @@ export class MovementService {
     try {
       const { sender, data, options, withFeePayer } = builtTransactionArguments;
 
-      const transaction = await this.MovementSDK.transaction.build.simple({
-        sender,
-        data,
-        options,
-        withFeePayer,
-      });
+      const transaction = await this.fullnodes.execute(
+        (client) =>
+          client.transaction.build.simple({
+            sender,
+            data,
+            options,
+            withFeePayer,
+          }),
+        false
+      );
+      this.assertChainId(transaction);
 
       return transaction;
     } catch (error: any) {
@@ -94,12 +218,13 @@ export class MovementService {
    * the transaction with the correct prefix before signing it.
    * @param transaction - The {@link SimpleTransaction} object to serialize.
    * @returns A Uint8Array representing the serialized transaction.
-   * @throws Will throw an error if serialization fails.
+   * @throws Will throw an error if serialization fails or the transaction targets another chain than the network profile.
    */
   public serializeTransaction = (
     transaction: SimpleTransaction
   ): Uint8Array => {
     try {
+      this.assertChainId(transaction);
       return serializeTransaction(transaction);
     } catch (error: any) {
       throw new Error(
@@ -128,8 +253,43 @@ export class MovementService {
     }
   };
 
+  /**
+   * Simulates a transaction against the fullnode simulation endpoint without signing it.
+   * @param transaction - The {@link SimpleTransaction} to simulate.
+   * @param rawPubKey - The public key of the sender in hex format, used for the authentication key check.
+   * @param feePayerRawPubKey - Optional public key of the fee payer in hex format for sponsored transactions.
+   * @returns A Promise that resolves to a {@link SimulateTransactionResponse} with the VM status, gas used and balance changes.
+   * @throws Will throw an error if the simulation request fails.
+   */
+  public simulateTransaction = async (
+    transaction: SimpleTransaction,
+    rawPubKey: string,
+    feePayerRawPubKey?: string
+  ): Promise<SimulateTransactionResponse> => {
+    try {
+      const [simulatedTx] = await this.fullnodes.execute(
+        (client) =>
+          client.transaction.simulate.simple({
+            signerPublicKey: new Ed25519PublicKey(rawPubKey),
+            feePayerPublicKey: feePayerRawPubKey
+              ? new Ed25519PublicKey(feePayerRawPubKey)
+              : undefined,
+            transaction,
+          }),
+        false
+      );
+      return formatSimulationResponse(simulatedTx);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to simulate transaction: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
   /**
    * Submits a transaction to the Movement blockchain.
+   * Transient failures are retried on the next endpoint, after checking by hash that the
+   * previous attempt did not reach the chain, so the transaction is never submitted twice.
    * @param SubmitTransactionArgumets - An object containing the transaction and sender authenticator.
    * @returns A Promise that resolves to a {@link PendingTransactionResponse} object.
    * @throws Will throw an error if the transaction submission fails.
@@ -141,11 +301,29 @@ export class MovementService {
       SubmitTransactionArgumets;
 
     try {
-      const response = await this.MovementSDK.transaction.submit.simple({
+      const transactionHash = generateUserTransactionHash({
         transaction,
         senderAuthenticator,
         feePayerAuthenticator,
       });
+      const response = await this.fullnodes.execute(
+        async (client, url, attempt) => {
+          if (attempt > 0) {
+            const submitted = await client
+              .getTransactionByHash({ transactionHash })
+              .catch(() => undefined);
+            if (submitted) {
+              return submitted as PendingTransactionResponse;
+            }
+          }
+          return client.transaction.submit.simple({
+            transaction,
+            senderAuthenticator,
+            feePayerAuthenticator,
+          });
+        },
+        true
+      );
       console.log("Submitted transaction hash:", response.hash);
       return response;
     } catch (error: any) {
@@ -167,10 +345,14 @@ export class MovementService {
     const { transactionHash, options } = waitForTransaction;
 
     try {
-      const response = await this.MovementSDK.waitForTransaction({
-        transactionHash,
-        options,
-      });
+      const response = await this.fullnodes.execute(
+        (client) =>
+          client.waitForTransaction({
+            transactionHash,
+            options,
+          }),
+        false
+      );
 
       return response;
     } catch (error: any) {
@@ -180,6 +362,343 @@ export class MovementService {
     }
   };
 
+  /**
+   * Retrieves the current on-chain sequence number of an account.
+   * @param accountAddress - The address of the account.
+   * @returns A Promise that resolves to the sequence number of the next transaction the account can send.
+   * @throws Will throw an error if fetching the account fails.
+   */
+  public getAccountSequenceNumber = async (
+    accountAddress: string
+  ): Promise<bigint> => {
+    try {
+      const accountInfo = await this.fullnodes.execute(
+        (client) =>
+          client.getAccountInfo({
+            accountAddress,
+          }),
+        true
+      );
+      return BigInt(accountInfo.sequence_number);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get account sequence number: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Checks that an account can be controlled with a public key, i.e. that its on-chain authentication key
+   * still equals the key derived from it. An account that does not exist yet implicitly has its address as
+   * authentication key.
+   * @param accountAddress - The address of the account.
+   * @param publicKey - The Ed25519 public key that signs for the account, in hex.
+   * @returns A Promise that resolves to the {@link AccountStatus} of the account.
+   * @throws Will throw an error if fetching the account fails for another reason than it not existing.
+   */
+  public getAccountStatus = async (
+    accountAddress: string,
+    publicKey: string
+  ): Promise<AccountStatus> => {
+    const address = AccountAddress.from(accountAddress).toStringLong();
+    const expectedAuthenticationKey = AccountAddress.from(
+      deriveAptosAddress(publicKey)
+    ).toStringLong();
+    try {
+      const accountInfo = await this.getAccountInfo(accountAddress);
+      if (!accountInfo) {
+        return {
+          address,
+          exists: false,
+          expectedAuthenticationKey,
+          authenticationKeyMatches: address === expectedAuthenticationKey,
+        };
+      }
+      const authenticationKey = AccountAddress.from(
+        accountInfo.authentication_key
+      ).toStringLong();
+      return {
+        address,
+        exists: true,
+        sequenceNumber: accountInfo.sequence_number,
+        authenticationKey,
+        expectedAuthenticationKey,
+        authenticationKeyMatches:
+          authenticationKey === expectedAuthenticationKey,
+      };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get account status: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Checks whether an account exists and can receive an asset. The native MOVE coin can always be received,
+   * since transferring it creates a missing account. A fungible asset cannot be received if the recipient's
+   * primary store of it is frozen.
+   * @param accountAddress - The address of the recipient.
+   * @param assetType - The fungible asset metadata address, or undefined for the native MOVE coin.
+   * @returns A Promise that resolves to the {@link RecipientCheck} of the recipient.
+   * @throws Will throw an error if fetching the account fails for another reason than it not existing, or if the
+   * frozen check fails for another reason than the asset not being a fungible asset, e.g. an unreachable node.
+   */
+  public checkRecipient = async (
+    accountAddress: string,
+    assetType?: string
+  ): Promise<RecipientCheck> => {
+    const address = AccountAddress.from(accountAddress).toStringLong();
+    let exists: boolean;
+    try {
+      exists = (await this.getAccountInfo(accountAddress)) !== undefined;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to check recipient: ${formatErrorMessage(error)}`
+      );
+    }
+    if (!assetType) {
+      return { address, exists, canReceive: true };
+    }
+    try {
+      const [frozen] = await this.fullnodes.execute(
+        (client) =>
+          client.view<[boolean]>({
+            payload: {
+              function: "0x1::primary_fungible_store::is_frozen",
+              typeArguments: ["0x1::fungible_asset::Metadata"],
+              functionArguments: [address, assetType],
+            },
+          }),
+        true
+      );
+      return frozen
+        ? {
+            address,
+            exists,
+            canReceive: false,
+            reason: `Primary store of ${assetType} is frozen`,
+          }
+        : { address, exists, canReceive: true };
+    } catch (error: any) {
+      // The node rejects the view with a bad request when the argument is no fungible asset or the function aborts
+      if (!(error instanceof AptosApiError && error.status === 400)) {
+        throw new Error(
+          `Failed to check recipient: ${formatErrorMessage(error)}`
+        );
+      }
+      return {
+        address,
+        exists,
+        canReceive: false,
+        reason: `${assetType} is not a fungible asset: ${formatErrorMessage(error)}`,
+      };
+    }
+  };
+
+  /**
+   * Fetches the on-chain data of an account.
+   * @param accountAddress - The address of the account.
+   * @returns A Promise that resolves to the sequence number and authentication key of the account, or
+   * undefined if the account does not exist.
+   */
+  private getAccountInfo = async (
+    accountAddress: string
+  ): Promise<AccountData | undefined> => {
+    try {
+      return await this.fullnodes.execute(
+        (client) => client.getAccountInfo({ accountAddress }),
+        true
+      );
+    } catch (error: any) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Retrieves the current gas unit price estimates from the fullnode.
+   * @returns A Promise that resolves to the {@link GasPrices} for each priority, in octas per gas unit.
+   * @throws Will throw an error if fetching the estimate fails.
+   */
+  public getGasPriceEstimation = async (): Promise<GasPrices> => {
+    try {
+      const estimate = await this.fullnodes.execute(
+        (client) => client.getGasPriceEstimation(),
+        true
+      );
+      return {
+        [GasPriority.LOW]:
+          estimate.deprioritized_gas_estimate ?? estimate.gas_estimate,
+        [GasPriority.MARKET]: estimate.gas_estimate,
+        [GasPriority.PRIORITIZED]:
+          estimate.prioritized_gas_estimate ?? estimate.gas_estimate,
+      };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get gas price estimation: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Estimates the gas fees of a transaction by simulating it at the gas price chosen by the pricing policy.
+   * @param createTransactionArguments - An object containing the parameters to build the transaction.
+   * @param gasPricingPolicy - Optional policy selecting the gas price priority and a fee cap.
+   * @returns A Promise that resolves to a {@link FeeEstimate} object.
+   * @throws Will throw an error if building or simulating the transaction fails.
+   */
+  public estimateFees = async (
+    createTransactionArguments: CreateTransactionArguments,
+    gasPricingPolicy?: GasPricingPolicy
+  ): Promise<FeeEstimate> => {
+    try {
+      return await estimateFees(createTransactionArguments, gasPricingPolicy);
+    } catch (error: any) {
+      throw new Error(`Failed to estimate fees: ${formatErrorMessage(error)}`);
+    }
+  };
+
+  /**
+   * Retrieves the exact on-chain balance of a coin, including its paired fungible asset balance.
+   * @param accountAddress - The address of the account.
+   * @param coinType - The coin type, defaults to the native MOVE coin.
+   * @returns A Promise that resolves to the balance in base units.
+   * @throws Will throw an error if the view call fails.
+   */
+  public getCoinBalance = async (
+    accountAddress: string,
+    coinType: `${string}::${string}::${string}` = APTOS_COIN
+  ): Promise<bigint> => {
+    try {
+      const [balance] = await this.fullnodes.execute(
+        (client) =>
+          client.view<[string]>({
+            payload: {
+              function: "0x1::coin::balance",
+              typeArguments: [coinType],
+              functionArguments: [accountAddress],
+            },
+          }),
+        true
+      );
+      return BigInt(balance);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get coin balance: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Computes the amount and gas values of a MOVE transfer that sends the whole balance,
+   * so that the account ends with exactly the reserve after the gas fee is charged.
+   * @param moveTransactionArguments - The MOVE transfer request, its amount is ignored.
+   * @returns A Promise that resolves to the transfer request with the amount, gas unit price and max gas amount set.
+   * @throws Will throw an error if the balance does not cover the reserve and the gas fee.
+   */
+  public resolveSendAllArguments = async (
+    moveTransactionArguments: MoveTransactionArguments
+  ): Promise<MoveTransactionArguments> => {
+    try {
+      return await resolveSendAllArguments(moveTransactionArguments);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to compute send all amount: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Retrieves the on-chain decimals of an asset.
+   * @param assetType - The fungible asset metadata address, or undefined for the native MOVE coin.
+   * @returns A Promise that resolves to the number of decimals of the asset.
+   * @throws Will throw an error if the asset does not exist or the view call fails.
+   */
+  public getAssetDecimals = async (assetType?: string): Promise<number> => {
+    const key = assetType ?? APTOS_COIN;
+    const cached = this.assetDecimals.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    try {
+      const [decimals] = assetType
+        ? await this.fullnodes.execute(
+            (client) =>
+              client.view<[number]>({
+                payload: {
+                  function: "0x1::fungible_asset::decimals",
+                  typeArguments: ["0x1::fungible_asset::Metadata"],
+                  functionArguments: [assetType],
+                },
+              }),
+            true
+          )
+        : await this.fullnodes.execute(
+            (client) =>
+              client.view<[number]>({
+                payload: {
+                  function: "0x1::coin::decimals",
+                  typeArguments: [APTOS_COIN],
+                },
+              }),
+            true
+          );
+      // Decimals are immutable, so they can be cached for the lifetime of the service
+      this.assetDecimals.set(key, Number(decimals));
+      return Number(decimals);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get decimals of ${key}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Retrieves the on-chain symbol of an asset.
+   * @param assetType - The fungible asset metadata address, or undefined for the native MOVE coin.
+   * @returns A Promise that resolves to the symbol of the asset, e.g. "MOVE".
+   * @throws Will throw an error if the asset does not exist or the view call fails.
+   */
+  public getAssetSymbol = async (assetType?: string): Promise<string> => {
+    const key = assetType ?? APTOS_COIN;
+    const cached = this.assetSymbols.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    try {
+      const [symbol] = assetType
+        ? await this.fullnodes.execute(
+            (client) =>
+              client.view<[string]>({
+                payload: {
+                  function: "0x1::fungible_asset::symbol",
+                  typeArguments: ["0x1::fungible_asset::Metadata"],
+                  functionArguments: [assetType],
+                },
+              }),
+            true
+          )
+        : await this.fullnodes.execute(
+            (client) =>
+              client.view<[string]>({
+                payload: {
+                  function: "0x1::coin::symbol",
+                  typeArguments: [APTOS_COIN],
+                },
+              }),
+            true
+          );
+      this.assetSymbols.set(key, symbol);
+      return symbol;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get symbol of ${key}: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
   /**
    * Retrieves account coins data from the Movement blockchain.
    * @param getAccountCoinsDatataArguments - An object containing the account address and minimum ledger version.
@@ -193,10 +712,14 @@ export class MovementService {
       getAccountCoinsDatataArguments;
 
     try {
-      const response = await this.MovementSDK.getAccountCoinsData({
-        accountAddress,
-        minimumLedgerVersion,
-      });
+      const response = await this.indexers.execute(
+        (client) =>
+          client.getAccountCoinsData({
+            accountAddress,
+            minimumLedgerVersion,
+          }),
+        true
+      );
 
       return response;
     } catch (error: any) {
@@ -216,20 +739,23 @@ export class MovementService {
     const { accountAddress, minimumLedgerVersion } = getBalanceArguments;
 
     try {
-      const response = await this.MovementSDK.getAccountCoinsData({
-        accountAddress,
-        minimumLedgerVersion,
-      });
+      const response = await this.indexers.execute(
+        (client) =>
+          client.getAccountCoinsData({
+            accountAddress,
+            minimumLedgerVersion,
+          }),
+        true
+      );
 
       const coins: GetAllBalancesResponse[] = response.map((coin) => {
-        const amount_in_octas = Number(coin.amount);
-        const decimals = Number(coin.metadata?.decimals);
-        const amount = amount_in_octas / 10 ** decimals;
+        const amountInOctas = BigInt(coin.amount ?? 0);
+        const decimals = Number(coin.metadata?.decimals || 0);
 
         return {
-          amount_in_octas,
+          amount_in_octas: amountInOctas.toString(),
           decimals,
-          amount,
+          amount: formatAmount(amountInOctas, decimals),
           is_frozen: coin.is_frozen,
           asset_type: coin.asset_type ?? "",
           name: coin.metadata?.name || "",
@@ -256,39 +782,40 @@ export class MovementService {
     const { accountAddress, minimumLedgerVersion } = getBalanceArguments;
 
     try {
-      const response = await this.MovementSDK.getAccountCoinsData({
-        accountAddress,
-        minimumLedgerVersion,
-      });
+      const response = await this.indexers.execute(
+        (client) =>
+          client.getAccountCoinsData({
+            accountAddress,
+            minimumLedgerVersion,
+          }),
+        true
+      );
 
       const moveCoins = response
         .filter((coin) => coin.metadata?.symbol === "MOVE")
         .map((coin) => {
-          const amount_in_octas = Number(coin.amount);
+          const amountInOctas = BigInt(coin.amount ?? 0);
           const decimals = Number(coin.metadata?.decimals || 0);
-          const amount = amount_in_octas / 10 ** decimals;
 
           return {
-            amount_in_octas,
+            amount_in_octas: amountInOctas.toString(),
             decimals,
-            amount,
+            amount: formatAmount(amountInOctas, decimals),
             is_frozen: coin.is_frozen,
             asset_type: coin.asset_type ?? "",
             name: coin.metadata?.name || "",
           };
         });
 
-      const total_in_octas = moveCoins.reduce(
-        (sum, coin) => sum + coin.amount_in_octas,
-        0
+      const totalInOctas = moveCoins.reduce(
+        (sum, coin) => sum + BigInt(coin.amount_in_octas),
+        BigInt(0)
       );
 
-      const total = moveCoins.reduce((sum, coin) => sum + coin.amount, 0);
-
       return {
         moveCoins,
-        total_in_octas,
-        total,
+        total_in_octas: totalInOctas.toString(),
+        total: formatAmount(totalInOctas, moveCoins[0]?.decimals ?? 0),
       };
     } catch (error: any) {
       throw new Error(`Failed to get balance: ${formatErrorMessage(error)}`);
@@ -309,20 +836,24 @@ export class MovementService {
     const limit = options?.limit || getTransactionConstants.defaultLimit;
     const offset = options?.offset || getTransactionConstants.defaultOffset;
     try {
-      const result = await fetch(getTransactionConstants.indexerURL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query: getTransactionConstants.GET_ACCOUNT_TRANSACTIONS_QUERY,
-          variables: { address, limit, offset },
-        }),
-      });
-
-      if (!result.ok) {
-        throw new Error(
-          `Network response was not ok: ${result.status} ${result.statusText}`
-        );
-      }
+      const result = await this.indexers.execute(async (_client, url) => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            query: getTransactionConstants.GET_ACCOUNT_TRANSACTIONS_QUERY,
+            variables: { address, limit, offset },
+          }),
+          signal: AbortSignal.timeout(endpointConstants.requestTimeoutMs),
+        });
+        if (!response.ok) {
+          throw new EndpointResponseError(
+            `Network response was not ok: ${response.status} ${response.statusText}`,
+            response.status
+          );
+        }
+        return response;
+      }, true);
 
       let data;
       try {
@@ -346,9 +877,13 @@ export class MovementService {
       for (const tx of data.data.account_transactions) {
         const version = tx.transaction_version;
         try {
-          const tx = await this.MovementSDK.getTransactionByVersion({
-            ledgerVersion: version,
-          });
+          const tx = await this.fullnodes.execute(
+            (client) =>
+              client.getTransactionByVersion({
+                ledgerVersion: version,
+              }),
+            true
+          );
           transactions.push({
             transaction_version: version,
             transaction_details: tx,
@@ -376,20 +911,68 @@ export class MovementService {
   /**
    * Creates a transaction on the Movement blockchain.
    * @param createTransactionArguments - An object containing the parameters to create the transaction.
-   * creates MOVE or token transactions depending on the tokenTransfer boolean parameter.
-   * @returns A Promise that resolves to a {@link CommittedTransactionResponse} object.
+   * creates MOVE, token or entry function transactions depending on the transactionType parameter.
+   * @returns A Promise that resolves to the {@link TransferResponse}: the committed transaction and the ID of its record.
    * @throws Will throw an error if the transaction creation fails.
    */
   public createTransaction = async (
     createTransactionArguments: CreateTransactionArguments
-  ): Promise<CommittedTransactionResponse> => {
+  ): Promise<TransferResponse> => {
     try {
       const response = await createTransaction(createTransactionArguments);
       return response;
     } catch (error: any) {
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
       throw new Error(
         `Failed to create transaction: ${formatErrorMessage(error)}`
       );
     }
   };
+
+  /**
+   * Creates a batch of transactions from the same account, signed with a single Fireblocks approval.
+   * @param transactionsArguments - The transaction requests, all sent by the same vault account.
+   * @returns A Promise that resolves to one {@link BatchTransactionResult} per request.
+   * @throws Will throw an error if building or signing the batch fails.
+   */
+  public createBatchTransactions = async (
+    transactionsArguments: CreateTransactionArguments[]
+  ): Promise<BatchTransactionResult[]> => {
+    try {
+      return await createBatchTransactions(transactionsArguments);
+    } catch (error: any) {
+      if (
+        error instanceof SigningTimeoutError ||
+        error instanceof IdempotencyKeyMismatchError
+      ) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to create batch transactions: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  /**
+   * Builds a transaction and simulates it on the Movement blockchain without signing it.
+   * @param createTransactionArguments - An object containing the parameters to build the transaction.
+   * @returns A Promise that resolves to a {@link SimulateTransactionResponse} object.
+   * @throws Will throw an error if building or simulating the transaction fails.
+   */
+  public simulateTransferTransaction = async (
+    createTransactionArguments: CreateTransactionArguments
+  ): Promise<SimulateTransactionResponse> => {
+    try {
+      return await simulateTransaction(createTransactionArguments);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to simulate transaction: ${formatErrorMessage(error)}`
+      );
+    }
+  };
 }
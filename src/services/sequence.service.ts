@@ -0,0 +1,180 @@
+/**
+ * Service class that allocates account sequence numbers locally, so that several transactions
+ * from the same account can be built and kept pending at the same time without colliding.
+ *
+ * @remarks
+ * The next sequence number is read from the chain whenever an account has no pending reservations,
+ * which resyncs the allocator after failed or expired transactions and after transactions sent from elsewhere.
+ * While reservations are pending, the lowest free numbers are handed out locally. A number given back by a
+ * failed transaction, or dropped once its transaction expired, is handed out again first, so that the pending
+ * transactions with higher numbers are not stuck behind the gap.
+ */
+import { DEFAULT_TXN_EXP_SEC_FROM_NOW } from "@aptos-labs/ts-sdk";
+import { MovementService } from "./movement.service";
+import { formatErrorMessage } from "../utils/errorHandling";
+
+type AccountSequenceState = {
+  nextSequenceNumber: bigint;
+  pending: Map<bigint, number>; // reserved sequence number -> expiration timestamp in seconds
+};
+
+export class SequenceNumberService {
+  private accounts: Map<string, AccountSequenceState> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Reserves the next sequence number of an account.
+   * @param movementService - The {@link MovementService} used to read the on-chain sequence number.
+   * @param accountAddress - The address of the sending account.
+   * @param expireTimestamp - Expiration timestamp (in seconds) of the transaction using the number.
+   * Reservations are dropped once it has passed.
+   * @returns A Promise that resolves to the reserved sequence number.
+   * @throws Will throw an error if the on-chain sequence number cannot be read.
+   */
+  public reserveSequenceNumber = async (
+    movementService: MovementService,
+    accountAddress: string,
+    expireTimestamp?: number
+  ): Promise<bigint> => {
+    const [sequenceNumber] = await this.reserveSequenceNumbers(
+      movementService,
+      accountAddress,
+      1,
+      expireTimestamp
+    );
+    return sequenceNumber;
+  };
+
+  /**
+   * Reserves a block of sequence numbers of an account, e.g. for a batch of transactions.
+   * The numbers are consecutive unless they fill gaps left by failed transactions.
+   * @param movementService - The {@link MovementService} used to read the on-chain sequence number.
+   * @param accountAddress - The address of the sending account.
+   * @param count - The number of sequence numbers to reserve.
+   * @param expireTimestamp - Expiration timestamp (in seconds) of the transactions using the numbers.
+   * @returns A Promise that resolves to the reserved sequence numbers in increasing order.
+   * @throws Will throw an error if the on-chain sequence number cannot be read.
+   */
+  public reserveSequenceNumbers = async (
+    movementService: MovementService,
+    accountAddress: string,
+    count: number,
+    expireTimestamp?: number
+  ): Promise<bigint[]> => {
+    const key = accountAddress.toLowerCase();
+    return this.withLock(key, async () => {
+      let state = this.accounts.get(key);
+      if (state) {
+        this.pruneExpired(state);
+      }
+      if (!state || state.pending.size === 0) {
+        try {
+          const onChainSequenceNumber =
+            await movementService.getAccountSequenceNumber(accountAddress);
+          state = {
+            nextSequenceNumber: onChainSequenceNumber,
+            pending: new Map(),
+          };
+          this.accounts.set(key, state);
+        } catch (error: any) {
+          throw new Error(
+            `Failed to reserve sequence number for ${accountAddress}: ${formatErrorMessage(
+              error
+            )}`
+          );
+        }
+      }
+      const expiresAt =
+        expireTimestamp ??
+        Math.floor(Date.now() / 1000) + DEFAULT_TXN_EXP_SEC_FROM_NOW;
+      const sequenceNumbers: bigint[] = [];
+      for (let i = 0; i < count; i++) {
+        // After a gap was filled, skip the numbers that are still reserved
+        while (state.pending.has(state.nextSequenceNumber)) {
+          state.nextSequenceNumber += BigInt(1);
+        }
+        const sequenceNumber = state.nextSequenceNumber;
+        state.nextSequenceNumber += BigInt(1);
+        state.pending.set(sequenceNumber, expiresAt);
+        sequenceNumbers.push(sequenceNumber);
+      }
+      return sequenceNumbers;
+    });
+  };
+
+  /**
+   * Marks a reserved sequence number as used by a committed transaction.
+   * @param accountAddress - The address of the sending account.
+   * @param sequenceNumber - The reserved sequence number.
+   */
+  public confirmSequenceNumber = (
+    accountAddress: string,
+    sequenceNumber: bigint
+  ): void => {
+    this.accounts
+      .get(accountAddress.toLowerCase())
+      ?.pending.delete(sequenceNumber);
+  };
+
+  /**
+   * Gives back a reserved sequence number whose transaction failed or expired without being committed.
+   * The number is handed out by the next reservation, even if later numbers are still reserved.
+   * @param accountAddress - The address of the sending account.
+   * @param sequenceNumber - The reserved sequence number.
+   */
+  public releaseSequenceNumber = (
+    accountAddress: string,
+    sequenceNumber: bigint
+  ): void => {
+    const state = this.accounts.get(accountAddress.toLowerCase());
+    if (!state || !state.pending.delete(sequenceNumber)) {
+      return;
+    }
+    this.rewind(state, sequenceNumber);
+  };
+
+  /**
+   * Forgets the local state of an account, so the next reservation reads the sequence number from the chain.
+   * @param accountAddress - The address of the sending account.
+   */
+  public resync = (accountAddress: string): void => {
+    this.accounts.delete(accountAddress.toLowerCase());
+  };
+
+  private pruneExpired = (state: AccountSequenceState): void => {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [sequenceNumber, expiresAt] of state.pending) {
+      if (expiresAt < now) {
+        state.pending.delete(sequenceNumber);
+        this.rewind(state, sequenceNumber);
+      }
+    }
+  };
+
+  // Makes a freed sequence number the next one handed out, unless a lower one is already free
+  private rewind = (
+    state: AccountSequenceState,
+    sequenceNumber: bigint
+  ): void => {
+    if (sequenceNumber < state.nextSequenceNumber) {
+      state.nextSequenceNumber = sequenceNumber;
+    }
+  };
+
+  // Runs reservations for the same account one at a time
+  private withLock = async <T>(
+    key: string,
+    task: () => Promise<T>
+  ): Promise<T> => {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  };
+}
@@ -3,16 +3,27 @@ import {
   AccountAuthenticator,
   AnyNumber,
   AnyRawTransaction,
+  CommittedTransactionResponse,
+  EntryFunctionArgumentTypes,
   HexInput,
   InputGenerateTransactionOptions,
   InputGenerateTransactionPayloadData,
+  MoveFunctionId,
   PaginationArgs,
+  SimpleEntryFunctionArgumentTypes,
   TransactionResponse,
+  TypeArgument,
   WaitForTransactionOptions,
 } from "@aptos-labs/ts-sdk";
 import { MovementService } from "./movement.service";
-import { FireblocksService } from "./fireblocks.service";
-import { BasePath } from "@fireblocks/ts-sdk";
+import { FireblocksWebhookService } from "./webhook.service";
+import {
+  BasePath,
+  SignedMessageSignature,
+  TransactionResponse as FireblocksTransactionResponse,
+} from "@fireblocks/ts-sdk";
+import { TransactionStore } from "../store/types";
+import { SequenceNumberService } from "./sequence.service";
 
 export type BuildTransactionArguments = {
   sender: AccountAddressInput;
@@ -43,15 +54,15 @@ export type GetBalanceArguments = AccountInfoBase;
 
 export type GetMoveBalanceResponse = {
   moveCoins: {
-    amount_in_octas: number;
+    amount_in_octas: string; // base units
     decimals: number;
-    amount: number;
+    amount: string; // decimal amount
     is_frozen: boolean;
     asset_type: string;
     name: string;
   }[];
-  total_in_octas: number;
-  total: number;
+  total_in_octas: string;
+  total: string;
 };
 
 export type GetTransactionHistoyArguments = {
@@ -60,49 +71,232 @@ export type GetTransactionHistoyArguments = {
 };
 
 export type GetAllBalancesResponse = {
-  amount_in_octas: number;
+  amount_in_octas: string; // base units
   decimals: number;
-  amount: number;
+  amount: string; // decimal amount
   is_frozen: boolean;
   asset_type: string;
   name: string;
   symbol: string;
 };
 
-export type MoveTransactionArguments = {
-  transactionType: TransactionType.MOVE;
-  movementAddress: string;
-  movementPublicKey: string;
-  movementService: MovementService;
-  fireblocksService: FireblocksService;
-  vaultAccountId: string | number;
-  recipientAddress: string;
-  amount: number;
+export type TransactionOptions = {
   maxGasAmount?: number;
   gasUnitPrice?: number;
   expireTimestamp?: number;
   accountSequenceNumber?: AnyNumber;
 };
 
-export type TokenTransactionArguments = {
+export type TransferAmount = AnyNumber | string; // base units, or a decimal string like "12.5"
+
+export type GasPricingPolicy = {
+  priority?: GasPriority; // defaults to market
+  maxFee?: AnyNumber | string; // cap on the total gas fee in octas
+};
+
+export type TransferOptions = {
+  simulate?: boolean; // dry-run the transaction and abort before signing if it would fail
+  feePayerVaultAccountId?: string | number; // vault account that sponsors the gas fees
+  amountUnit?: AmountUnit; // unit of the transfer amount, defaults to base units
+  gasPricingPolicy?: GasPricingPolicy; // sets gas price and limit when neither is given
+  reserveAmount?: AnyNumber | string; // octas kept in the account by "max" MOVE transfers
+  signingTimeoutMs?: number; // cancels the Fireblocks signing request if still pending after this long
+  idempotencyKey?: string; // sent as the Fireblocks externalTxId, repeated requests return the original outcome
+  note?: string; // Fireblocks note of the signing request, generated from the transaction when omitted
+  customerRefId?: string; // Fireblocks customer reference ID of the signing request
+};
+
+export type VaultAddress = {
+  addressIndex: number; // last index of the derivation path [44, 637, vaultAccountId, 0, addressIndex]
+  address: string;
+  publicKey: string;
+};
+
+export type AccountStatus = {
+  address: string;
+  exists: boolean; // false until the account is created on-chain, e.g. by a first MOVE deposit
+  sequenceNumber?: string;
+  authenticationKey?: string; // on-chain authentication key, unset while the account does not exist
+  expectedAuthenticationKey: string; // derived from the Fireblocks public key
+  authenticationKeyMatches: boolean; // false once the key was rotated away from the Fireblocks key
+};
+
+export type RecipientPolicy = {
+  blockSelfTransfers?: boolean; // refuse transfers to the sending account
+  blockSpecialAddresses?: boolean; // refuse transfers to 0x0 and the framework addresses 0x1 to 0xf
+  requireExistingAccount?: boolean; // refuse transfers to accounts that do not exist on-chain yet
+};
+
+export type RecipientCheck = {
+  address: string; // long form of the recipient address
+  exists: boolean;
+  canReceive: boolean; // false if the transfer would be refused by the recipient policy or fail on-chain
+  reason?: string; // why the recipient cannot receive the transfer
+};
+
+export type CreateVaultArguments = {
+  name: string;
+  customerRefId?: string; // customer reference ID of the vault, e.g. for AML screening
+  hiddenOnUI?: boolean; // hides the vault in the Fireblocks console, e.g. for per-customer deposit vaults
+};
+
+export type ListVaultsArguments = {
+  namePrefix?: string;
+  limit?: number;
+  before?: string; // paging cursors returned by the previous page
+  after?: string;
+};
+
+export type ProvisionedVault = {
+  vaultAccountId: string;
+  name?: string;
+  customerRefId?: string;
+  hiddenOnUI: boolean;
+  address: string; // Movement address of the vault's first address index
+  publicKey: string;
+};
+
+export type ProvisionedVaultPage = {
+  vaults: ProvisionedVault[];
+  before?: string;
+  after?: string;
+};
+
+export type FeePayerAccount = {
+  vaultAccountId: string | number;
+  address: string;
+  publicKey: string;
+};
+
+export type TransactionArgumentsBase = TransactionOptions &
+  TransferOptions & {
+    movementAddress: string;
+    movementPublicKey: string;
+    movementService: MovementService;
+    signer: TransactionSigner; // signs with Fireblocks, or locally in tests
+    vaultAccountId: string | number;
+    addressIndex?: number; // address index within the vault, 0 by default
+    transactionStore?: TransactionStore; // records each step of the transaction when set
+    sequenceNumberService?: SequenceNumberService; // allocates the sequence number when none is given
+    requestFingerprint?: string; // fingerprint of the request as sent, set when its arguments are resolved, e.g. by send-all
+  };
+
+export type MoveTransactionArguments = TransactionArgumentsBase & {
+  transactionType: TransactionType.MOVE;
+  recipientAddress: string;
+  amount: TransferAmount;
+};
+
+export type TokenTransactionArguments = TransactionArgumentsBase & {
   transactionType: TransactionType.TOKEN;
   tokenAsset: string;
-  movementAddress: string;
-  movementPublicKey: string;
-  movementService: MovementService;
-  fireblocksService: FireblocksService;
-  vaultAccountId: string | number;
   recipientAddress: string;
-  amount: number;
-  maxGasAmount?: number;
-  gasUnitPrice?: number;
-  expireTimestamp?: number;
-  accountSequenceNumber?: AnyNumber;
+  amount: TransferAmount;
+};
+
+export type EntryFunctionTransactionArguments = TransactionArgumentsBase & {
+  transactionType: TransactionType.ENTRY_FUNCTION;
+  function: MoveFunctionId;
+  typeArguments?: TypeArgument[];
+  functionArguments: Array<
+    EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes
+  >;
 };
 
 export type CreateTransactionArguments =
   | MoveTransactionArguments
-  | TokenTransactionArguments;
+  | TokenTransactionArguments
+  | EntryFunctionTransactionArguments;
+
+export type CallEntryFunctionArguments = {
+  function: MoveFunctionId;
+  typeArguments?: TypeArgument[];
+  functionArguments?: Array<
+    EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes
+  >;
+  options?: TransactionOptions &
+    Pick<TransferOptions, "note" | "customerRefId">;
+};
+
+export type PrepareTransactionArguments = TransactionOptions &
+  TransferOptions &
+  (
+    | {
+        transactionType: TransactionType.MOVE;
+        recipientAddress: string;
+        amount: TransferAmount;
+      }
+    | {
+        transactionType: TransactionType.TOKEN;
+        recipientAddress: string;
+        amount: TransferAmount;
+        tokenType: string;
+      }
+    | {
+        transactionType: TransactionType.ENTRY_FUNCTION;
+        function: MoveFunctionId;
+        typeArguments?: TypeArgument[];
+        functionArguments?: Array<
+          EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes
+        >;
+      }
+  );
+
+export type BatchTransfer = {
+  recipientAddress: string;
+  amount: TransferAmount;
+  tokenType?: string; // transfers MOVE when omitted
+  amountUnit?: AmountUnit;
+};
+
+export type TransferResponse = CommittedTransactionResponse & {
+  transferId?: string; // ID of the stored transaction record, for GET /:vaultId/transfers/:id
+};
+
+export type BatchTransactionResult = {
+  success: boolean;
+  sequenceNumber: string;
+  transferId?: string; // ID of the stored transaction record, for GET /:vaultId/transfers/:id
+  transactionHash?: string;
+  vmStatus?: string;
+  error?: string;
+};
+
+export type BatchTransferResult = BatchTransfer &
+  BatchTransactionResult & {
+    index: number;
+  };
+
+export type BalanceChange = {
+  accountAddress: string;
+  asset: string;
+  amount: string; // signed amount in base units, negative for withdrawals
+};
+
+export type SimulateTransactionResponse = {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: number;
+  gasUnitPrice: number;
+  maxGasAmount: number;
+  gasFee: number; // gasUsed * gasUnitPrice in octas
+  balanceChanges: BalanceChange[];
+};
+
+export type GasPrices = Record<GasPriority, number>;
+
+export type FeeEstimate = {
+  success: boolean; // whether the simulated transaction succeeded
+  vmStatus: string;
+  priority: GasPriority;
+  gasUnitPrice: number;
+  gasUsed: number;
+  maxGasAmount: number;
+  estimatedFee: string; // gasUsed * gasUnitPrice in octas
+  maxFee: string; // maxGasAmount * gasUnitPrice in octas
+  exceedsMaxFee: boolean; // estimated fee is above the policy's fee cap
+  gasPrices: GasPrices; // current fullnode gas price estimates per priority
+};
 
 export type FireblocksConfig = {
   apiKey: string;
@@ -110,9 +304,115 @@ export type FireblocksConfig = {
   basePath?: BasePath;
 };
 
+/**
+ * Signs transactions with the Ed25519 key of a vault account. Implemented by the FireblocksService,
+ * and by the LocalSigner for tests against a local Movement node without Fireblocks.
+ */
+export interface TransactionSigner {
+  // addressIndex selects one of the vault's addresses, 0 by default
+  getPublicKeyByVaultID(
+    vaultID: string | number,
+    addressIndex?: number
+  ): Promise<string>; // hex public key without 0x prefix
+  getMovementAddressByVaultID(
+    vaultID: string | number,
+    addressIndex?: number
+  ): Promise<string>;
+  rawSignTransaction(
+    message: any,
+    vaultID: string | number,
+    signingTimeoutMs?: number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<SignedMessageSignature | undefined>;
+  rawSignMessages(
+    messages: any[],
+    vaultID: string | number,
+    signingTimeoutMs?: number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<SignedMessageSignature[]>;
+  // Two-phase signing: the request ID identifies the signing request until its signature is collected
+  requestRawSignature(
+    message: any,
+    vaultID: string | number,
+    details?: SigningRequestDetails,
+    addressIndex?: number
+  ): Promise<string>;
+  waitForRawSignature(
+    requestId: string,
+    signingTimeoutMs?: number
+  ): Promise<SignedMessageSignature>;
+  cancelSigningRequest(requestId: string): Promise<boolean>;
+}
+
+export type SdkOptions = {
+  transactionStore?: TransactionStore; // defaults to an in-memory store per SDK instance
+  sequenceNumberService?: SequenceNumberService; // defaults to an allocator per SDK instance
+  gasPricingPolicy?: GasPricingPolicy; // applied to MOVE and token transfers without explicit gas values
+  movementConfig?: MovementConfig; // defaults to the network selected by MOVEMENT_NETWORK
+  webhookService?: FireblocksWebhookService; // resolves signing requests from Fireblocks webhook notifications
+  signingPolling?: SigningPollingConfig; // polling of signing requests, the fallback when a webhook service is set
+  signer?: TransactionSigner; // replaces Fireblocks signing, e.g. with a LocalSigner in tests
+  addressIndex?: number; // address index within the vault, defaults to the vault's first address
+  recipientPolicy?: RecipientPolicy; // checks of transfer recipients, defaults to blocking self and special addresses
+};
+
+export type SigningPollingConfig = {
+  intervalMs?: number; // first delay between two status requests
+  maxIntervalMs?: number; // upper bound of the delay once backed off
+  backoffFactor?: number; // the delay is multiplied by this factor after every request
+  maxWaitMs?: number; // signing requests still pending after this long fail, 0 waits forever
+};
+
+export type SigningWaitOptions = {
+  polling?: SigningPollingConfig;
+  webhookService?: FireblocksWebhookService;
+};
+
+export type SigningRequestDetails = {
+  note?: string; // shown to the approvers of the signing request
+  customerRefId?: string; // customer reference ID, e.g. for AML screening or reconciliation
+  externalTxId?: string; // unique ID that keeps Fireblocks from creating the request twice
+};
+
+export type FireblocksWebhookEvent = {
+  type?: string; // e.g. TRANSACTION_STATUS_UPDATED
+  tenantId?: string;
+  timestamp?: number;
+  data?: FireblocksTransactionResponse;
+};
+
 export type MovementConfig = {
+  network: MovementNetwork;
   fullnodeUrl: string;
   indexerUrl: string;
+  chainId?: number; // expected chain ID, unset for networks that are reset regularly
+  fallbackFullnodeUrls?: string[]; // tried in order when the fullnode fails
+  fallbackIndexerUrls?: string[]; // tried in order when the indexer fails
+};
+
+export type EndpointHealth = {
+  url: string;
+  healthy: boolean; // false until the next successful request after a transient failure
+  consecutiveFailures: number;
+  lastError?: string;
+};
+
+export type EndpointsHealth = {
+  fullnodes: EndpointHealth[];
+  indexers: EndpointHealth[];
+};
+
+export type ChainIdCheck = {
+  network: MovementNetwork;
+  fullnodeUrl: string;
+  expectedChainId?: number;
+  chainId?: number; // reported by the fullnode
+  ledgerVersion?: string;
+  healthy: boolean;
+  error?: string;
+  endpoints?: EndpointsHealth;
 };
 
 export type GetTransactionHistoryResponse = {
@@ -124,4 +424,24 @@ export type GetTransactionHistoryResponse = {
 export enum TransactionType {
   MOVE = "move",
   TOKEN = "token",
+  ENTRY_FUNCTION = "entry_function",
+}
+
+export enum MovementNetwork {
+  MAINNET = "mainnet",
+  TESTNET = "testnet", // Bardock
+  DEVNET = "devnet",
+  LOCAL = "local",
+  CUSTOM = "custom", // endpoints from APTOS_FULLNODE_URL and APTOS_INDEXER_URL
+}
+
+export enum GasPriority {
+  LOW = "low",
+  MARKET = "market",
+  PRIORITIZED = "prioritized",
+}
+
+export enum AmountUnit {
+  BASE = "base", // smallest on-chain unit, e.g. octas
+  DECIMAL = "decimal", // whole tokens, converted using the asset's on-chain decimals
 }
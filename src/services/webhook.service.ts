@@ -0,0 +1,114 @@
+/**
+ * Service class that receives Fireblocks webhook notifications and hands transaction updates
+ * to the signing requests waiting for them, so they do not have to poll the Fireblocks API.
+ *
+ * @remarks
+ * Notifications are only accepted with a valid `Fireblocks-Signature`, an RSA-SHA512 signature of the raw
+ * request body made with the workspace's webhook key. Updates are kept for a short while, so a notification
+ * that arrives before its signing request starts waiting is not lost.
+ */
+import { createVerify } from "crypto";
+import { readFileSync } from "fs";
+import { TransactionResponse } from "@fireblocks/ts-sdk";
+import { webhookConstants } from "../constants";
+import { FireblocksWebhookEvent } from "./types";
+
+type TransactionListener = (transaction: TransactionResponse) => void;
+
+export class FireblocksWebhookService {
+  private readonly publicKey: string;
+  private listeners: Map<string, Set<TransactionListener>> = new Map();
+  private updates: Map<
+    string,
+    { transaction: TransactionResponse; receivedAt: number }
+  > = new Map();
+
+  /**
+   * @param publicKey - The Fireblocks webhook public key, as a PEM string or the path of a .pem or .key file.
+   */
+  constructor(publicKey: string) {
+    this.publicKey =
+      publicKey.endsWith(".pem") || publicKey.endsWith(".key")
+        ? readFileSync(publicKey, "utf8")
+        : publicKey;
+  }
+
+  /**
+   * Checks the signature Fireblocks sent with a webhook notification.
+   * @param rawBody - The request body exactly as received.
+   * @param signature - The base64 value of the `Fireblocks-Signature` header.
+   * @returns True if the body was signed with the Fireblocks webhook key.
+   */
+  public verifySignature = (
+    rawBody: Buffer | string,
+    signature: string | undefined
+  ): boolean => {
+    if (!signature) {
+      return false;
+    }
+    try {
+      const verifier = createVerify("RSA-SHA512");
+      verifier.update(rawBody);
+      return verifier.verify(this.publicKey, signature, "base64");
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Hands the transaction of a verified webhook notification to the signing requests waiting for it.
+   * @param event - The parsed notification body.
+   * @returns True if the notification carried a transaction update.
+   */
+  public handleEvent = (event: FireblocksWebhookEvent): boolean => {
+    const transaction = event?.data;
+    if (!transaction?.id || !transaction.status) {
+      return false;
+    }
+    const now = Date.now();
+    for (const [txId, update] of this.updates) {
+      if (now - update.receivedAt > webhookConstants.updateRetentionMs) {
+        this.updates.delete(txId);
+      }
+    }
+    this.updates.set(transaction.id, { transaction, receivedAt: now });
+    for (const listener of this.listeners.get(transaction.id) ?? []) {
+      listener(transaction);
+    }
+    return true;
+  };
+
+  /**
+   * Waits for the next webhook update of a Fireblocks transaction.
+   * @param txId - The Fireblocks transaction ID.
+   * @param timeoutMs - How long to wait before giving up.
+   * @param since - Only updates received after this epoch timestamp (in milliseconds) count.
+   * @returns A Promise that resolves to the updated transaction, or undefined if no update arrived in time.
+   */
+  public waitForUpdate = (
+    txId: string,
+    timeoutMs: number,
+    since: number
+  ): Promise<TransactionResponse | undefined> => {
+    const update = this.updates.get(txId);
+    if (update && update.receivedAt > since) {
+      return Promise.resolve(update.transaction);
+    }
+    return new Promise((resolve) => {
+      const listeners = this.listeners.get(txId) ?? new Set();
+      this.listeners.set(txId, listeners);
+      const finish = (transaction?: TransactionResponse): void => {
+        clearTimeout(timer);
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          this.listeners.delete(txId);
+        }
+        resolve(transaction);
+      };
+      const listener: TransactionListener = (transaction) =>
+        finish(transaction);
+      const timer = setTimeout(() => finish(), timeoutMs);
+      listeners.add(listener);
+    });
+  };
+}
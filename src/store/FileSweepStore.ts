@@ -0,0 +1,48 @@
+import path from "path";
+import { MemorySweepStore } from "./MemorySweepStore";
+import { SweepJob } from "./types";
+import { JsonFileWriter, readJsonFile } from "./jsonFile";
+import { formatErrorMessage } from "../utils/errorHandling";
+
+/**
+ * Sweep store that persists the job reports to a JSON file after every change,
+ * so that interrupted sweeps can be resumed after a process restart.
+ */
+export class FileSweepStore extends MemorySweepStore {
+  private readonly filePath: string;
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.writer = new JsonFileWriter(this.filePath);
+    this.load();
+  }
+
+  private load = (): void => {
+    try {
+      const jobs = readJsonFile<SweepJob[]>(this.filePath) ?? [];
+      for (const job of jobs) {
+        this.jobs.set(job.id, job);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to load sweep store from ${this.filePath}: ${formatErrorMessage(
+          error
+        )}`
+      );
+    }
+  };
+
+  protected persist = async (): Promise<void> => {
+    try {
+      await this.writer.write(Array.from(this.jobs.values()));
+    } catch (error) {
+      throw new Error(
+        `Failed to persist sweep store to ${
+          this.filePath
+        }: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+}
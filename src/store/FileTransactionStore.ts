@@ -0,0 +1,48 @@
+import path from "path";
+import { MemoryTransactionStore } from "./MemoryTransactionStore";
+import { TransactionRecord } from "./types";
+import { JsonFileWriter, readJsonFile } from "./jsonFile";
+import { formatErrorMessage } from "../utils/errorHandling";
+
+/**
+ * Transaction store that keeps all records in memory and persists them to a JSON file
+ * after every change, so that in-flight transactions survive a process restart.
+ */
+export class FileTransactionStore extends MemoryTransactionStore {
+  private readonly filePath: string;
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.writer = new JsonFileWriter(this.filePath);
+    this.load();
+  }
+
+  private load = (): void => {
+    try {
+      const records = readJsonFile<TransactionRecord[]>(this.filePath) ?? [];
+      for (const record of records) {
+        this.records.set(record.id, record);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to load transaction store from ${
+          this.filePath
+        }: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+
+  protected persist = async (): Promise<void> => {
+    try {
+      await this.writer.write(Array.from(this.records.values()));
+    } catch (error) {
+      throw new Error(
+        `Failed to persist transaction store to ${
+          this.filePath
+        }: ${formatErrorMessage(error)}`
+      );
+    }
+  };
+}
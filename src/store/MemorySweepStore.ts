@@ -0,0 +1,31 @@
+import { SweepJob, SweepStore, SweepStoreFilter } from "./types";
+
+// Jobs hold nested vault reports, so they are deep-copied in and out of the store
+const copyJob = (job: SweepJob): SweepJob => JSON.parse(JSON.stringify(job));
+
+export class MemorySweepStore implements SweepStore {
+  protected jobs: Map<string, SweepJob> = new Map();
+
+  public save = async (job: SweepJob): Promise<void> => {
+    this.jobs.set(job.id, copyJob(job));
+    await this.persist();
+  };
+
+  public get = async (id: string): Promise<SweepJob | undefined> => {
+    const job = this.jobs.get(id);
+    return job ? copyJob(job) : undefined;
+  };
+
+  public list = async (filter?: SweepStoreFilter): Promise<SweepJob[]> => {
+    return Array.from(this.jobs.values())
+      .filter(
+        (job) => !filter?.statuses || filter.statuses.includes(job.status)
+      )
+      .map(copyJob);
+  };
+
+  /**
+   * Hook for subclasses that keep the jobs in durable storage.
+   */
+  protected persist = async (): Promise<void> => {};
+}
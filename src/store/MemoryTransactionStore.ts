@@ -0,0 +1,117 @@
+import {
+  SETTLED_TRANSACTION_STATUSES,
+  TransactionRecord,
+  TransactionStatus,
+  TransactionStore,
+  TransactionStoreFilter,
+} from "./types";
+import { derivationPath } from "../constants";
+import { getDefaultNetwork } from "../utils/network.utils";
+import {
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../utils/errorHandling";
+
+export const matchesFilter = (
+  record: TransactionRecord,
+  filter?: TransactionStoreFilter
+): boolean => {
+  if (
+    filter?.vaultAccountId &&
+    record.vaultAccountId !== filter.vaultAccountId
+  ) {
+    return false;
+  }
+  if (
+    filter?.addressIndex !== undefined &&
+    (record.addressIndex ?? derivationPath.addressIndex) !== filter.addressIndex
+  ) {
+    return false;
+  }
+  if (
+    filter?.network &&
+    (record.network ?? getDefaultNetwork()) !== filter.network
+  ) {
+    return false;
+  }
+  if (filter?.statuses && !filter.statuses.includes(record.status)) {
+    return false;
+  }
+  if (
+    filter?.idempotencyKey &&
+    record.idempotencyKey !== filter.idempotencyKey
+  ) {
+    return false;
+  }
+  return true;
+};
+
+export class MemoryTransactionStore implements TransactionStore {
+  protected records: Map<string, TransactionRecord> = new Map();
+
+  public save = async (record: TransactionRecord): Promise<void> => {
+    this.records.set(record.id, { ...record });
+    await this.persist();
+  };
+
+  public get = async (id: string): Promise<TransactionRecord | undefined> => {
+    const record = this.records.get(id);
+    return record ? { ...record } : undefined;
+  };
+
+  public list = async (
+    filter?: TransactionStoreFilter
+  ): Promise<TransactionRecord[]> => {
+    return Array.from(this.records.values())
+      .filter((record) => matchesFilter(record, filter))
+      .map((record) => ({ ...record }));
+  };
+
+  public update = async (
+    id: string,
+    changes: Partial<Omit<TransactionRecord, "id" | "createdAt">>,
+    expectedStatus?: TransactionStatus
+  ): Promise<TransactionRecord> => {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new TransactionNotFoundError(id);
+    }
+    // Checked and applied synchronously, so no other update can interleave
+    if (expectedStatus !== undefined && record.status !== expectedStatus) {
+      throw new TransactionStateError(
+        id,
+        `Transaction ${id} is ${record.status}, expected it to be ${expectedStatus}`
+      );
+    }
+    const updated: TransactionRecord = {
+      ...record,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    this.records.set(id, updated);
+    await this.persist();
+    return { ...updated };
+  };
+
+  public prune = async (settledBefore: string): Promise<number> => {
+    let pruned = 0;
+    for (const [id, record] of this.records) {
+      if (
+        SETTLED_TRANSACTION_STATUSES.includes(record.status) &&
+        record.updatedAt < settledBefore
+      ) {
+        this.records.delete(id);
+        pruned++;
+      }
+    }
+    if (pruned > 0) {
+      await this.persist();
+    }
+    return pruned;
+  };
+
+  /**
+   * Hook for subclasses that keep the records in durable storage.
+   */
+  protected persist = async (): Promise<void> => {};
+}
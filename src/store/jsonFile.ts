@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Reads and parses a JSON file.
+ * @param filePath - The absolute path of the file.
+ * @returns The parsed contents, or undefined if the file does not exist.
+ * @throws Will throw an error if the file cannot be read or parsed.
+ */
+export const readJsonFile = <T>(filePath: string): T | undefined => {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+};
+
+/**
+ * Writes snapshots to a JSON file one at a time, replacing the file atomically
+ * so that it is never left half-written.
+ */
+export class JsonFileWriter {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public write = async (data: unknown): Promise<void> => {
+    const snapshot = JSON.stringify(data, null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot, "utf8");
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    try {
+      await this.writeQueue;
+    } catch (error) {
+      this.writeQueue = Promise.resolve();
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { MovementNetwork, TransactionType } from "../services/types";
+
+export enum TransactionStatus {
+  PREPARED = "prepared",
+  SIGNING = "signing",
+  SIGNED = "signed",
+  SUBMITTED = "submitted",
+  COMMITTED = "committed",
+  FAILED = "failed",
+  CANCELLED = "cancelled", // signing request cancelled by an operator or after its signing timeout
+}
+
+export const IN_FLIGHT_TRANSACTION_STATUSES = [
+  TransactionStatus.PREPARED,
+  TransactionStatus.SIGNING,
+  TransactionStatus.SIGNED,
+  TransactionStatus.SUBMITTED,
+];
+
+export const SETTLED_TRANSACTION_STATUSES = [
+  TransactionStatus.COMMITTED,
+  TransactionStatus.FAILED,
+  TransactionStatus.CANCELLED,
+];
+
+export interface TransactionRecord {
+  id: string;
+  vaultAccountId: string;
+  addressIndex?: number; // unset on records of the vault's first address
+  network?: MovementNetwork; // unset on records created before network profiles, which belong to the default network
+  transactionType: TransactionType;
+  status: TransactionStatus;
+  senderAddress: string;
+  senderPublicKey: string;
+  rawTransaction: string; // BCS-serialized SimpleTransaction in hex
+  signingMessage: string; // prefixed signing message in hex
+  fireblocksTxId?: string;
+  signature?: string; // Ed25519 signature in hex
+  autoSubmit: boolean; // submit as soon as signed, false for two-phase transactions
+  feePayerVaultAccountId?: string;
+  feePayerPublicKey?: string;
+  feePayerFireblocksTxId?: string;
+  feePayerSignature?: string;
+  signingTimeoutMs?: number;
+  idempotencyKey?: string; // Fireblocks externalTxId of the signing request
+  requestFingerprint?: string; // hash of what the request sends, a reused idempotency key has to repeat it
+  note?: string; // custom Fireblocks note, generated from the transaction when unset
+  customerRefId?: string; // Fireblocks customer reference ID of the signing request
+  transactionHash?: string;
+  vmStatus?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransactionStoreFilter {
+  vaultAccountId?: string;
+  addressIndex?: number;
+  network?: MovementNetwork;
+  statuses?: TransactionStatus[];
+  idempotencyKey?: string;
+}
+
+export interface TransactionStore {
+  save(record: TransactionRecord): Promise<void>;
+  get(id: string): Promise<TransactionRecord | undefined>;
+  list(filter?: TransactionStoreFilter): Promise<TransactionRecord[]>;
+  // Applies the changes only if the record is still in expectedStatus, if given, so concurrent transitions cannot both succeed
+  update(
+    id: string,
+    changes: Partial<Omit<TransactionRecord, "id" | "createdAt">>,
+    expectedStatus?: TransactionStatus
+  ): Promise<TransactionRecord>;
+  // Deletes settled records last updated before the given ISO timestamp and returns how many were deleted
+  prune?(settledBefore: string): Promise<number>;
+}
+
+export enum SweepStatus {
+  RUNNING = "running",
+  COMPLETED = "completed",
+}
+
+export enum SweepVaultStatus {
+  PENDING = "pending",
+  SWEPT = "swept", // every sweepable asset was transferred
+  SKIPPED = "skipped", // no asset was above its minimum
+  FAILED = "failed", // the balances could not be read or a transfer failed
+}
+
+export interface SweepTransfer {
+  asset: string;
+  amount: string; // base units
+  success: boolean;
+  transactionHash?: string;
+  vmStatus?: string;
+  error?: string;
+}
+
+export interface SweepVaultReport {
+  vaultAccountId: string;
+  status: SweepVaultStatus;
+  address?: string;
+  transfers: SweepTransfer[];
+  error?: string;
+}
+
+export interface SweepJob {
+  id: string;
+  status: SweepStatus;
+  targetAddress: string;
+  minimumBalances: Record<string, string>; // asset -> minimum balance in base units
+  gasReserve: string; // octas left in each vault
+  feePayerVaultAccountId?: string; // vault that sponsors the gas of every transfer
+  concurrency: number;
+  network: MovementNetwork;
+  vaults: SweepVaultReport[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface SweepStoreFilter {
+  statuses?: SweepStatus[];
+}
+
+export interface SweepStore {
+  save(job: SweepJob): Promise<void>;
+  get(id: string): Promise<SweepJob | undefined>;
+  list(filter?: SweepStoreFilter): Promise<SweepJob[]>;
+}
@@ -0,0 +1,73 @@
+import { AmountUnit, TransferAmount } from "../services/types";
+
+const baseUnitsRegex = /^\d+$/;
+const decimalAmountRegex = /^\d+(\.\d+)?$/;
+
+/**
+ * Converts a transfer amount to on-chain base units without going through floating point numbers.
+ * @param amount - The amount as a number, bigint or numeric string (e.g. "12.5").
+ * @param unit - Whether the amount is given in base units or as a decimal amount of whole tokens.
+ * @param decimals - The on-chain decimals of the asset, only used for decimal amounts.
+ * @returns The amount in base units.
+ * @throws Will throw an error if the amount is negative, not a valid number, or has more fractional digits than the asset supports.
+ */
+export const parseAmount = (
+  amount: TransferAmount,
+  unit: AmountUnit,
+  decimals: number
+): bigint => {
+  if (typeof amount === "bigint") {
+    if (amount < BigInt(0)) {
+      throw new Error(`Invalid amount: ${amount} must not be negative`);
+    }
+    return unit === AmountUnit.DECIMAL
+      ? amount * BigInt(10) ** BigInt(decimals)
+      : amount;
+  }
+  if (typeof amount === "number" && !Number.isFinite(amount)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  // Numbers in exponent notation (e.g. 1e-7) have to be passed as strings
+  const value = String(amount).trim();
+
+  if (unit === AmountUnit.BASE) {
+    if (!baseUnitsRegex.test(value)) {
+      throw new Error(
+        `Invalid amount: ${value} must be a whole number of base units`
+      );
+    }
+    if (typeof amount === "number" && !Number.isSafeInteger(amount)) {
+      throw new Error(
+        `Invalid amount: ${value} exceeds the safe integer range, pass it as a string`
+      );
+    }
+    return BigInt(value);
+  }
+
+  if (!decimalAmountRegex.test(value)) {
+    throw new Error(`Invalid amount: ${value} must be a decimal number`);
+  }
+  const [whole, fraction = ""] = value.split(".");
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Invalid amount: ${value} has more than ${decimals} decimal places`
+    );
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+};
+
+/**
+ * Formats an amount of base units as a decimal string of whole tokens.
+ * @param baseUnits - The amount in base units.
+ * @param decimals - The on-chain decimals of the asset.
+ * @returns The decimal amount without trailing zeros, e.g. "12.5".
+ */
+export const formatAmount = (baseUnits: bigint, decimals: number): string => {
+  const negative = baseUnits < BigInt(0);
+  const digits = (negative ? -baseUnits : baseUnits)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
@@ -1,3 +1,65 @@
 export function formatErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
+
+/**
+ * Error for a Fireblocks signing request that was still pending when its signing timeout expired.
+ * The FireblocksService cancels the request in Fireblocks before passing this error on, so it can no longer be signed.
+ */
+export class SigningTimeoutError extends Error {
+  readonly txId: string;
+  readonly timeoutMs: number;
+  readonly status = 504; // reported as a gateway timeout by the REST API
+
+  constructor(txId: string, timeoutMs: number, transactionStatus?: string) {
+    super(
+      `Signing request timed out: Transaction: ${txId} is still at status ${transactionStatus} after ${timeoutMs} ms`
+    );
+    this.name = "SigningTimeoutError";
+    this.txId = txId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error for a stored transaction that does not exist, or does not belong to the vault that asked for it.
+ */
+export class TransactionNotFoundError extends Error {
+  readonly transactionId: string;
+  readonly status = 404;
+
+  constructor(transactionId: string, message?: string) {
+    super(message ?? `Transaction ${transactionId} not found`);
+    this.name = "TransactionNotFoundError";
+    this.transactionId = transactionId;
+  }
+}
+
+/**
+ * Error for a lifecycle step that does not apply to the current state of a transaction, e.g. signing it twice.
+ */
+export class TransactionStateError extends Error {
+  readonly transactionId: string;
+  readonly status = 409; // reported as a conflict by the REST API
+
+  constructor(transactionId: string, message: string) {
+    super(message);
+    this.name = "TransactionStateError";
+    this.transactionId = transactionId;
+  }
+}
+
+/**
+ * Error for an idempotency key sent again with another request than the one it was first used for,
+ * e.g. another recipient or amount, or from another vault.
+ */
+export class IdempotencyKeyMismatchError extends Error {
+  readonly idempotencyKey: string;
+  readonly status = 422; // reported as an unprocessable request by the REST API
+
+  constructor(idempotencyKey: string, message: string) {
+    super(message);
+    this.name = "IdempotencyKeyMismatchError";
+    this.idempotencyKey = idempotencyKey;
+  }
+}
@@ -5,13 +5,22 @@ import {
   TransactionRequest,
   TransactionResponse,
   FireblocksResponse,
+  FireblocksError,
   TransactionStateEnum,
   SignedMessageSignature,
   VaultsApiGetPublicKeyInfoRequest,
   SignedMessageAlgorithmEnum,
+  VaultAccount,
+  VaultAccountsPagedResponse,
 } from "@fireblocks/ts-sdk";
-import { derivationPath } from "../constants";
-import { formatErrorMessage } from "./errorHandling";
+import { derivationPath, signingPollingConstants } from "../constants";
+import {
+  CreateVaultArguments,
+  ListVaultsArguments,
+  SigningRequestDetails,
+  SigningWaitOptions,
+} from "../services/types";
+import { formatErrorMessage, SigningTimeoutError } from "./errorHandling";
 import * as fs from "fs";
 
 export const validateApiCredentials = (
@@ -48,10 +57,11 @@ export const validateApiCredentials = (
 
 export const getPublicKeyForDerivationPath = async (
   fireblocksSDK: Fireblocks,
-  vaultAccountId: string
+  vaultAccountId: string,
+  addressIndex: number = derivationPath.addressIndex
 ): Promise<string> => {
   const requestParams: VaultsApiGetPublicKeyInfoRequest = {
-    derivationPath: `[${derivationPath.purpose}, ${derivationPath.coinType}, ${vaultAccountId}, ${derivationPath.change}, ${derivationPath.addressIndex}]`,
+    derivationPath: `[${derivationPath.purpose}, ${derivationPath.coinType}, ${vaultAccountId}, ${derivationPath.change}, ${addressIndex}]`,
     algorithm: SignedMessageAlgorithmEnum.EddsaEd25519,
   };
   try {
@@ -66,9 +76,57 @@ export const getPublicKeyForDerivationPath = async (
   }
 };
 
-export const createTransactionPayload = (note?: string): TransactionRequest => {
+export const createVaultAccount = async (
+  fireblocksSDK: Fireblocks,
+  createVaultArguments: CreateVaultArguments,
+  idempotencyKey?: string
+): Promise<VaultAccount> => {
+  try {
+    const response = await fireblocksSDK.vaults.createVaultAccount({
+      createVaultAccountRequest: {
+        name: createVaultArguments.name,
+        customerRefId: createVaultArguments.customerRefId,
+        hiddenOnUI: createVaultArguments.hiddenOnUI ?? false,
+      },
+      idempotencyKey,
+    });
+    if (!response.data.id) {
+      throw new Error("No vault account ID returned.");
+    }
+    return response.data;
+  } catch (error: any) {
+    throw new Error(
+      `Error creating vault account: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
+export const getVaultAccountsPage = async (
+  fireblocksSDK: Fireblocks,
+  listVaultsArguments: ListVaultsArguments
+): Promise<VaultAccountsPagedResponse> => {
+  try {
+    const response = await fireblocksSDK.vaults.getPagedVaultAccounts({
+      namePrefix: listVaultsArguments.namePrefix,
+      limit: listVaultsArguments.limit,
+      before: listVaultsArguments.before,
+      after: listVaultsArguments.after,
+    });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(
+      `Error fetching vault accounts: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
+export const createTransactionPayload = (
+  details?: SigningRequestDetails
+): TransactionRequest => {
   return {
-    note: note || "Raw Sinign Transaction with Fireblocks",
+    note: details?.note || "Raw signing request for a Movement transaction",
+    customerRefId: details?.customerRefId,
+    externalTxId: details?.externalTxId,
     source: {
       type: TransferPeerPathType.VaultAccount,
     },
@@ -82,53 +140,127 @@ export const createTransactionPayload = (note?: string): TransactionRequest => {
   };
 };
 
-let txInfo: any;
+const failedTransactionStatuses: string[] = [
+  TransactionStateEnum.Blocked,
+  TransactionStateEnum.Cancelled,
+  TransactionStateEnum.Failed,
+  TransactionStateEnum.Rejected,
+];
 
+/**
+ * Waits for a Fireblocks transaction to complete. Webhook notifications end the wait as soon as they arrive;
+ * polling with exponential backoff is the fallback for missed or disabled notifications.
+ * @param txId - The Fireblocks transaction ID.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @param waitOptions - Optional polling configuration and webhook service.
+ * @returns A promise that resolves to the completed {@link TransactionResponse}.
+ * @throws Will throw an error if the transaction fails, or a {@link SigningTimeoutError} if it is still pending after the maximum wait.
+ */
 const getTxStatus = async (
   txId: string,
-  fireblocks: Fireblocks
+  fireblocks: Fireblocks,
+  waitOptions?: SigningWaitOptions
 ): Promise<TransactionResponse> => {
-  try {
-    let response: FireblocksResponse<TransactionResponse> =
-      await fireblocks.transactions.getTransaction({ txId });
-    let tx: TransactionResponse = response.data;
-    let messageToConsole: string = `Transaction ${tx.id} is currently at status - ${tx.status}`;
-
-    console.log(messageToConsole);
-    while (tx.status !== TransactionStateEnum.Completed) {
-      await new Promise((resolve) => setTimeout(resolve, 3000));
-
-      response = await fireblocks.transactions.getTransaction({ txId });
-      tx = response.data;
-
-      switch (tx.status) {
-        case TransactionStateEnum.Blocked:
-        case TransactionStateEnum.Cancelled:
-        case TransactionStateEnum.Failed:
-        case TransactionStateEnum.Rejected:
-          throw new Error(
-            `Signing request failed/blocked/cancelled: Transaction: ${tx.id} status is ${tx.status}`
-          );
-        default:
-          console.log(messageToConsole);
-          break;
-      }
+  const { webhookService, polling } = waitOptions ?? {};
+  const maxWaitMs = polling?.maxWaitMs ?? signingPollingConstants.maxWaitMs;
+  const maxIntervalMs =
+    polling?.maxIntervalMs ?? signingPollingConstants.maxIntervalMs;
+  const backoffFactor =
+    polling?.backoffFactor ?? signingPollingConstants.backoffFactor;
+  let intervalMs =
+    polling?.intervalMs ??
+    (webhookService
+      ? signingPollingConstants.webhookIntervalMs
+      : signingPollingConstants.intervalMs);
+  const startedAt = Date.now();
+
+  let checkedAt = Date.now();
+  let tx: TransactionResponse = (
+    await fireblocks.transactions.getTransaction({ txId })
+  ).data;
+  let status = tx.status;
+  console.log(`Transaction ${tx.id} is currently at status - ${tx.status}`);
+  while (tx.status !== TransactionStateEnum.Completed) {
+    if (failedTransactionStatuses.includes(tx.status ?? "")) {
+      throw new Error(
+        `Signing request failed/blocked/cancelled: Transaction: ${tx.id} status is ${tx.status}`
+      );
+    }
+    const remainingMs = maxWaitMs ? startedAt + maxWaitMs - Date.now() : -1;
+    if (maxWaitMs && remainingMs <= 0) {
+      throw new SigningTimeoutError(txId, maxWaitMs, tx.status);
+    }
+    const delayMs = maxWaitMs ? Math.min(intervalMs, remainingMs) : intervalMs;
+
+    const update = webhookService
+      ? await webhookService.waitForUpdate(txId, delayMs, checkedAt)
+      : await new Promise<undefined>((resolve) =>
+          setTimeout(() => resolve(undefined), delayMs)
+        );
+    checkedAt = Date.now();
+    // Webhook payloads of completed transactions may omit the signatures
+    tx =
+      update &&
+      (update.status !== TransactionStateEnum.Completed ||
+        update.signedMessages?.length)
+        ? update
+        : (await fireblocks.transactions.getTransaction({ txId })).data;
+    if (!update) {
+      intervalMs = Math.min(intervalMs * backoffFactor, maxIntervalMs);
+    }
+    if (tx.status !== status) {
+      status = tx.status;
+      console.log(`Transaction ${tx.id} is currently at status - ${tx.status}`);
     }
-    while (tx.status !== TransactionStateEnum.Completed);
-    return tx;
-  } catch (error) {
-    throw error;
   }
+  return tx;
 };
 
-export const rawSign = async (
+/**
+ * Creates a Fireblocks RAW signing request for the given content without waiting for it to complete.
+ * @param content - The message bytes to sign.
+ * @param vaultAccountId - The Fireblocks vault account ID whose key signs the message.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @param details - Optional note, customer reference ID and external ID of the Fireblocks transaction.
+ * @param addressIndex - Optional address index of the vault's derivation path, 0 by default.
+ * @returns A promise that resolves to the Fireblocks transaction ID of the signing request.
+ */
+export const createRawSigningRequest = async (
   content: any,
   vaultAccountId: number | string,
   fireblocks: Fireblocks,
-  note?: string
-): Promise<SignedMessageSignature | undefined> => {
-  const hexContent = Buffer.from(content).toString("hex");
-  const transactionPayload = createTransactionPayload(note);
+  details?: SigningRequestDetails,
+  addressIndex?: number
+): Promise<string> => {
+  return createBatchRawSigningRequest(
+    [content],
+    vaultAccountId,
+    fireblocks,
+    details,
+    addressIndex
+  );
+};
+
+/**
+ * Creates a single Fireblocks RAW signing request that signs several messages with the same key,
+ * so that they only need one approval.
+ * @param contents - The message bytes to sign, one entry per message.
+ * @param vaultAccountId - The Fireblocks vault account ID whose key signs the messages.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @param details - Optional note, customer reference ID and external ID of the Fireblocks transaction.
+ * If a request with the external ID already exists for the same vault and messages, its ID is returned instead.
+ * @param addressIndex - Optional address index of the vault's derivation path, 0 by default.
+ * @returns A promise that resolves to the Fireblocks transaction ID of the signing request.
+ */
+export const createBatchRawSigningRequest = async (
+  contents: any[],
+  vaultAccountId: number | string,
+  fireblocks: Fireblocks,
+  details?: SigningRequestDetails,
+  addressIndex: number = derivationPath.addressIndex
+): Promise<string> => {
+  const transactionPayload = createTransactionPayload(details);
+  const externalTxId = details?.externalTxId;
 
   if (typeof vaultAccountId === "string") {
     vaultAccountId = Number(vaultAccountId);
@@ -139,19 +271,22 @@ export const rawSign = async (
     }
   }
 
+  transactionPayload.source = {
+    type: TransferPeerPathType.VaultAccount,
+    id: String(vaultAccountId),
+  };
+  const messageDerivationPath = [
+    derivationPath.purpose,
+    derivationPath.coinType,
+    vaultAccountId,
+    derivationPath.change,
+    addressIndex,
+  ];
   (transactionPayload.extraParameters as any).rawMessageData = {
-    messages: [
-      {
-        content: hexContent,
-        derivationPath: [
-          derivationPath.purpose,
-          derivationPath.coinType,
-          vaultAccountId,
-          derivationPath.change,
-          derivationPath.addressIndex,
-        ],
-      },
-    ],
+    messages: contents.map((content) => ({
+      content: Buffer.from(content).toString("hex"),
+      derivationPath: messageDerivationPath,
+    })),
     algorithm: SignedMessageAlgorithmEnum.EddsaEd25519,
   };
 
@@ -166,21 +301,184 @@ export const rawSign = async (
     if (!txId) {
       throw new Error("Transaction ID is undefined.");
     }
-    txInfo = await getTxStatus(txId, fireblocks);
-    console.log(JSON.stringify(txInfo, null, 2));
-    const signature = txInfo.signedMessages[0].signature;
+    return txId;
+  } catch (error) {
+    // A retried request is rejected for its duplicate external ID, the original one is signed instead
+    let existingTxId: string | undefined;
+    try {
+      existingTxId = externalTxId
+        ? await findRawSigningRequest(
+            externalTxId,
+            vaultAccountId,
+            contents,
+            fireblocks
+          )
+        : undefined;
+    } catch (lookupError) {
+      error = lookupError;
+    }
+    if (existingTxId) {
+      console.log(
+        `Reusing signing request ${existingTxId} with external ID ${externalTxId}`
+      );
+      return existingTxId;
+    }
+    console.error(error);
+    throw new Error(
+      `Error creating signing request: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
+// The part of a RAW signing request's extraParameters that holds the messages, untyped in the SDK
+interface RawMessageExtraParameters {
+  rawMessageData?: {
+    messages?: { content?: string }[];
+  };
+}
 
-    const encodedSig =
-      Buffer.from([Number.parseInt(signature.v, 16) + 31]).toString("hex") +
-      signature.fullSig;
+// Looks up a signing request by external ID, only if it signs the same messages with the same vault
+const findRawSigningRequest = async (
+  externalTxId: string,
+  vaultAccountId: number,
+  contents: any[],
+  fireblocks: Fireblocks
+): Promise<string | undefined> => {
+  let existing: TransactionResponse;
+  try {
+    existing = (
+      await fireblocks.transactions.getTransactionByExternalId({
+        externalTxId,
+      })
+    ).data;
+  } catch (error) {
+    // Only a missing request means the external ID is unused, other failures leave it unknown
+    if (
+      error instanceof FireblocksError &&
+      error.response?.statusCode === 404
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+  if (!existing) {
+    return undefined;
+  }
+  const extraParameters: RawMessageExtraParameters | undefined =
+    existing.extraParameters;
+  const messages = extraParameters?.rawMessageData?.messages ?? [];
+  const sameMessages =
+    messages.length === contents.length &&
+    contents.every(
+      (content, index) =>
+        messages[index].content?.toLowerCase() ===
+        Buffer.from(content).toString("hex").toLowerCase()
+    );
+  if (existing.source?.id !== String(vaultAccountId) || !sameMessages) {
+    throw new Error(
+      `External ID ${externalTxId} already belongs to a signing request of other messages or another vault`
+    );
+  }
+  return existing.id;
+};
 
-    return signature;
+/**
+ * Waits for a Fireblocks RAW signing request to complete and returns its signature.
+ * @param txId - The Fireblocks transaction ID of the signing request.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @param waitOptions - Optional polling configuration and webhook service.
+ * @returns A promise that resolves to the {@link SignedMessageSignature} of the signed message.
+ */
+export const getRawSignature = async (
+  txId: string,
+  fireblocks: Fireblocks,
+  waitOptions?: SigningWaitOptions
+): Promise<SignedMessageSignature | undefined> => {
+  try {
+    const txInfo = await getTxStatus(txId, fireblocks, waitOptions);
+    console.log(JSON.stringify(txInfo, null, 2));
+    return txInfo.signedMessages?.[0]?.signature;
   } catch (error) {
     console.error(error);
+    if (error instanceof SigningTimeoutError) {
+      throw error;
+    }
     throw new Error(`Error signing message: ${formatErrorMessage(error)}`);
   }
 };
 
+/**
+ * Waits for a multi-message Fireblocks RAW signing request to complete and returns its signatures.
+ * Signatures are matched to the messages by content, since Fireblocks does not guarantee their order.
+ * @param txId - The Fireblocks transaction ID of the signing request.
+ * @param contents - The message bytes that were sent for signing.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @param waitOptions - Optional polling configuration and webhook service.
+ * @returns A promise that resolves to the {@link SignedMessageSignature}s in the order of `contents`.
+ */
+export const getRawSignatures = async (
+  txId: string,
+  contents: any[],
+  fireblocks: Fireblocks,
+  waitOptions?: SigningWaitOptions
+): Promise<(SignedMessageSignature | undefined)[]> => {
+  try {
+    const txInfo = await getTxStatus(txId, fireblocks, waitOptions);
+    const signedMessages = txInfo.signedMessages ?? [];
+    return contents.map((content) => {
+      const hexContent = Buffer.from(content).toString("hex");
+      return signedMessages.find(
+        (signedMessage) =>
+          signedMessage.content?.toLowerCase() === hexContent.toLowerCase()
+      )?.signature;
+    });
+  } catch (error) {
+    console.error(error);
+    if (error instanceof SigningTimeoutError) {
+      throw error;
+    }
+    throw new Error(`Error signing messages: ${formatErrorMessage(error)}`);
+  }
+};
+
+/**
+ * Cancels a pending Fireblocks signing request, e.g. one whose signing timeout expired.
+ * @param txId - The Fireblocks transaction ID of the signing request.
+ * @param fireblocks - The Fireblocks SDK instance.
+ * @returns A promise that resolves to true if Fireblocks accepted the cancellation.
+ */
+export const cancelSigningRequest = async (
+  txId: string,
+  fireblocks: Fireblocks
+): Promise<boolean> => {
+  try {
+    const response = await fireblocks.transactions.cancelTransaction({ txId });
+    return response.data.success ?? false;
+  } catch (error) {
+    throw new Error(
+      `Error cancelling signing request ${txId}: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
+export const rawSign = async (
+  content: any,
+  vaultAccountId: number | string,
+  fireblocks: Fireblocks,
+  note?: string,
+  waitOptions?: SigningWaitOptions,
+  addressIndex?: number
+): Promise<SignedMessageSignature | undefined> => {
+  const txId = await createRawSigningRequest(
+    content,
+    vaultAccountId,
+    fireblocks,
+    { note },
+    addressIndex
+  );
+  return getRawSignature(txId, fireblocks, waitOptions);
+};
+
 export const checkSignature = (
   rawSignature: SignedMessageSignature | undefined
 ): Buffer => {
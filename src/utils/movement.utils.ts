@@ -1,29 +1,71 @@
 import { sha3_256 } from "js-sha3";
 import {
+  accountAddressFormat,
   createMoveTransactionConstants,
   createTokenTransactionConstants,
+  derivationPath,
+  feePayerSigningMessagePrefix,
+  gasEstimationConstants,
+  idempotencyConstants,
   signingMessagePrefix,
 } from "../constants";
 import {
+  AccountAddress,
   AccountAddressInput,
   AccountAuthenticator,
   AccountAuthenticatorEd25519,
   CommittedTransactionResponse,
+  DEFAULT_MAX_GAS_AMOUNT,
+  DEFAULT_TXN_EXP_SEC_FROM_NOW,
+  Deserializer,
   Ed25519PublicKey,
   Ed25519Signature,
+  FeePayerRawTransaction,
+  Hex,
   InputEntryFunctionData,
   InputGenerateTransactionOptions,
   SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  UserTransactionResponse,
+  WriteSetChangeWriteResource,
 } from "@aptos-labs/ts-sdk";
 import {
+  AmountUnit,
+  BalanceChange,
+  BatchTransactionResult,
   BuildTransactionArguments,
   CreateTransactionArguments,
+  FeeEstimate,
+  FeePayerAccount,
+  GasPricingPolicy,
+  GasPriority,
+  MovementNetwork,
+  MoveTransactionArguments,
+  SigningRequestDetails,
+  SimulateTransactionResponse,
   SubmitTransactionArguments,
-  WaitForTransactionArguments,
   TokenTransactionArguments,
+  TransactionSigner,
+  TransactionType,
+  TransferResponse,
+  WaitForTransactionArguments,
 } from "../services/types";
 import { checkSignature } from "./fireblocks.utils";
-import { formatErrorMessage } from "./errorHandling";
+import {
+  formatErrorMessage,
+  IdempotencyKeyMismatchError,
+  SigningTimeoutError,
+} from "./errorHandling";
+import { formatAmount, parseAmount } from "./amount.utils";
+import { MovementService } from "../services/movement.service";
+import { SignedMessageSignature } from "@fireblocks/ts-sdk";
+import {
+  IN_FLIGHT_TRANSACTION_STATUSES,
+  TransactionRecord,
+  TransactionStatus,
+  TransactionStore,
+} from "../store/types";
+import { randomUUID } from "crypto";
 
 export const deriveAptosAddress = (pubKeyHex: string): string => {
   const clean = pubKeyHex.startsWith("0x") ? pubKeyHex.slice(2) : pubKeyHex;
@@ -33,13 +75,78 @@ export const deriveAptosAddress = (pubKeyHex: string): string => {
   return `0x${authHex}`;
 };
 
+/**
+ * Parses an account address in the strict AIP-40 form: 0x followed by 64 hex characters, or the short form
+ * 0x0 to 0xf of the special addresses. A truncated address is refused rather than padded, as it may be a typo.
+ * @param address - The address to parse.
+ * @param options - Set `relaxed` to also accept 0x followed by 1 to 63 hex characters, padded with leading zeroes.
+ * @returns The address in its long form.
+ * @throws Will throw an error if the address is not in one of the accepted forms.
+ */
+export const parseAccountAddress = (
+  address: unknown,
+  options: { relaxed?: boolean } = {}
+): string => {
+  if (options.relaxed) {
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(address)) {
+      throw new Error(
+        `Invalid account address ${address}: expected 0x followed by 1 to 64 hex characters`
+      );
+    }
+    return AccountAddress.fromString(address, {
+      maxMissingChars: 63,
+    }).toStringLong();
+  }
+  if (
+    typeof address !== "string" ||
+    !AccountAddress.isValid({ input: address, strict: true }).valid
+  ) {
+    throw new Error(
+      `Invalid account address ${address}: expected ${accountAddressFormat}`
+    );
+  }
+  return AccountAddress.fromStringStrict(address).toStringLong();
+};
+
+/**
+ * Checks whether a value is an account address that {@link parseAccountAddress} accepts.
+ * @param address - The value to check.
+ * @param options - Set `relaxed` to also accept short forms of non-special addresses.
+ * @returns True if the value is in one of the accepted address forms.
+ */
+export const isValidAccountAddress = (
+  address: unknown,
+  options: { relaxed?: boolean } = {}
+): boolean => {
+  try {
+    parseAccountAddress(address, options);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const serializeTransaction = (
   transaction: SimpleTransaction
 ): Uint8Array => {
   try {
-    const bcsBytes = transaction.rawTransaction.bcsToBytes();
+    // Fee payer transactions are signed by both parties over the raw transaction with data
+    const bcsBytes = transaction.feePayerAddress
+      ? new FeePayerRawTransaction(
+          transaction.rawTransaction,
+          [],
+          transaction.feePayerAddress
+        ).bcsToBytes()
+      : transaction.rawTransaction.bcsToBytes();
     const prefix = new Uint8Array(
-      Buffer.from(sha3_256(signingMessagePrefix), "hex")
+      Buffer.from(
+        sha3_256(
+          transaction.feePayerAddress
+            ? feePayerSigningMessagePrefix
+            : signingMessagePrefix
+        ),
+        "hex"
+      )
     );
     const signingMessage = new Uint8Array(prefix.length + bcsBytes.length);
     signingMessage.set(prefix, 0);
@@ -52,6 +159,24 @@ export const serializeTransaction = (
   }
 };
 
+/**
+ * Restores a {@link SimpleTransaction} from its BCS serialization.
+ * @param transactionHex - The BCS-serialized transaction in hex, as produced by `bcsToHex()`.
+ * @returns The deserialized {@link SimpleTransaction}.
+ */
+export const deserializeTransaction = (
+  transactionHex: string
+): SimpleTransaction => {
+  try {
+    const bytes = Hex.fromHexInput(transactionHex).toUint8Array();
+    return SimpleTransaction.deserialize(new Deserializer(bytes));
+  } catch (error: any) {
+    throw new Error(
+      `Failed to deserialize transaction: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
 export const createSenderAuthenticator = (
   rawPubKey: string,
   signatureBytes: Buffer | ArrayBuffer
@@ -73,45 +198,240 @@ export const createSenderAuthenticator = (
   }
 };
 
-export const createTransaction = async (
+/**
+ * Computes the net balance change per account and asset from the events of a user transaction.
+ * Fungible asset events reference stores, which are resolved to their owner and metadata
+ * through the resources written by the same transaction.
+ * @param transaction - The executed or simulated {@link UserTransactionResponse}.
+ * @returns The list of {@link BalanceChange} entries with signed base-unit amounts.
+ */
+export const extractBalanceChanges = (
+  transaction: UserTransactionResponse
+): BalanceChange[] => {
+  const normalize = (address: string): string =>
+    AccountAddress.from(address, { maxMissingChars: 63 }).toString();
+
+  const stores = new Map<string, { owner?: string; metadata?: string }>();
+  for (const change of transaction.changes) {
+    if (change.type !== "write_resource") continue;
+    const { address, data } = change as WriteSetChangeWriteResource;
+    const store = stores.get(normalize(address)) ?? {};
+    const resource = data.data as {
+      owner?: string;
+      metadata?: { inner: string };
+    };
+    if (data.type === "0x1::object::ObjectCore") {
+      store.owner = resource.owner;
+    } else if (data.type === "0x1::fungible_asset::FungibleStore") {
+      store.metadata = resource.metadata?.inner;
+    }
+    stores.set(normalize(address), store);
+  }
+
+  const totals = new Map<
+    string,
+    { accountAddress: string; asset: string; amount: bigint }
+  >();
+  const addChange = (accountAddress: string, asset: string, amount: bigint) => {
+    const key = `${accountAddress}-${asset}`;
+    const entry = totals.get(key) ?? {
+      accountAddress,
+      asset,
+      amount: BigInt(0),
+    };
+    entry.amount += amount;
+    totals.set(key, entry);
+  };
+
+  for (const event of transaction.events) {
+    switch (event.type) {
+      case "0x1::fungible_asset::Deposit":
+      case "0x1::fungible_asset::Withdraw": {
+        const store = stores.get(normalize(event.data.store));
+        const amount = BigInt(event.data.amount);
+        addChange(
+          normalize(store?.owner ?? event.data.store),
+          store?.metadata ? normalize(store.metadata) : "unknown",
+          event.type.endsWith("Withdraw") ? -amount : amount
+        );
+        break;
+      }
+      case "0x1::coin::CoinDeposit":
+      case "0x1::coin::CoinWithdraw": {
+        const amount = BigInt(event.data.amount);
+        addChange(
+          normalize(event.data.account),
+          event.data.coin_type,
+          event.type.endsWith("Withdraw") ? -amount : amount
+        );
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return Array.from(totals.values())
+    .filter((entry) => entry.amount !== BigInt(0))
+    .map((entry) => ({ ...entry, amount: entry.amount.toString() }));
+};
+
+/**
+ * Maps a simulated user transaction to a {@link SimulateTransactionResponse}.
+ * @param transaction - The simulated {@link UserTransactionResponse}.
+ * @returns The VM status, gas figures and balance changes of the simulation.
+ */
+export const formatSimulationResponse = (
+  transaction: UserTransactionResponse
+): SimulateTransactionResponse => {
+  const gasUsed = Number(transaction.gas_used);
+  const gasUnitPrice = Number(transaction.gas_unit_price);
+  return {
+    success: transaction.success,
+    vmStatus: transaction.vm_status,
+    gasUsed,
+    gasUnitPrice,
+    maxGasAmount: Number(transaction.max_gas_amount),
+    gasFee: gasUsed * gasUnitPrice,
+    balanceChanges: extractBalanceChanges(transaction),
+  };
+};
+
+/**
+ * Converts the amount of a MOVE or token transfer to base units.
+ * Decimal amounts are converted using the asset's on-chain decimals.
+ * @param transferArguments - The MOVE or token transfer request.
+ * @returns A Promise that resolves to the amount in base units.
+ * @throws Will throw an error if the amount is invalid for the asset.
+ */
+export const resolveTransferAmount = async (
+  transferArguments: MoveTransactionArguments | TokenTransactionArguments
+): Promise<bigint> => {
+  const {
+    amount,
+    amountUnit = AmountUnit.BASE,
+    movementService,
+  } = transferArguments;
+  if (amountUnit === AmountUnit.BASE) {
+    return parseAmount(amount, amountUnit, 0);
+  }
+  const decimals = await movementService.getAssetDecimals(
+    transferArguments.transactionType === TransactionType.TOKEN
+      ? transferArguments.tokenAsset
+      : undefined
+  );
+  return parseAmount(amount, amountUnit, decimals);
+};
+
+/**
+ * Resolves the entry function payload for a transaction request.
+ * MOVE and token transfers use the framework transfer functions from the constants,
+ * while entry function requests are passed through as provided.
+ * @param createTransactionArguments - The transaction request to resolve.
+ * @returns The {@link InputEntryFunctionData} to build the transaction with.
+ */
+export const getEntryFunctionData = (
   createTransactionArguments: CreateTransactionArguments
-): Promise<CommittedTransactionResponse> => {
+): InputEntryFunctionData => {
+  switch (createTransactionArguments.transactionType) {
+    case TransactionType.MOVE:
+      return {
+        function:
+          createMoveTransactionConstants.function as `${string}::${string}::${string}`,
+        typeArguments: [],
+        functionArguments: [
+          createTransactionArguments.recipientAddress,
+          createTransactionArguments.amount,
+        ],
+      };
+    case TransactionType.TOKEN:
+      return {
+        function:
+          createTokenTransactionConstants.function as `${string}::${string}::${string}`,
+        typeArguments: createTokenTransactionConstants.typeArguments,
+        functionArguments: [
+          createTransactionArguments.tokenAsset,
+          createTransactionArguments.recipientAddress,
+          createTransactionArguments.amount,
+        ],
+      };
+    case TransactionType.ENTRY_FUNCTION:
+      return {
+        function: createTransactionArguments.function,
+        typeArguments: createTransactionArguments.typeArguments ?? [],
+        functionArguments: createTransactionArguments.functionArguments,
+      };
+    default:
+      throw new Error(
+        `Unknown transaction type: ${
+          (createTransactionArguments as CreateTransactionArguments)
+            .transactionType
+        }`
+      );
+  }
+};
+
+/**
+ * Resolves the Movement account of the vault that sponsors the gas fees of a transaction.
+ * @param signer - The signer used to fetch the vault's public key.
+ * @param feePayerVaultAccountId - The Fireblocks vault account ID of the fee payer.
+ * @returns A Promise that resolves to the fee payer's {@link FeePayerAccount}.
+ */
+export const resolveFeePayerAccount = async (
+  signer: TransactionSigner,
+  feePayerVaultAccountId: string | number
+): Promise<FeePayerAccount> => {
+  try {
+    const publicKey = await signer.getPublicKeyByVaultID(
+      feePayerVaultAccountId
+    );
+    return {
+      vaultAccountId: feePayerVaultAccountId,
+      publicKey,
+      address: deriveAptosAddress(publicKey),
+    };
+  } catch (error: any) {
+    throw new Error(
+      `Failed to resolve fee payer vault ${feePayerVaultAccountId}: ${formatErrorMessage(
+        error
+      )}`
+    );
+  }
+};
+
+/**
+ * Builds the {@link SimpleTransaction} for a transaction request, applying the
+ * optional gas, expiration and sequence number options.
+ * @param createTransactionArguments - The transaction request to build.
+ * @param feePayer - Optional fee payer account that sponsors the gas fees.
+ * @returns A Promise that resolves to the built {@link SimpleTransaction}.
+ */
+export const buildTransactionFromArguments = async (
+  createTransactionArguments: CreateTransactionArguments,
+  feePayer?: FeePayerAccount
+): Promise<SimpleTransaction> => {
   const {
-    transactionType,
     movementAddress,
-    recipientAddress,
-    amount,
     maxGasAmount,
     gasUnitPrice,
     expireTimestamp,
     accountSequenceNumber,
     movementService,
-    fireblocksService,
-    vaultAccountId,
-    movementPublicKey,
   } = createTransactionArguments;
 
-  // Narrow type for tokenAsset if present
-  const tokenTransfer = "tokenAsset" in createTransactionArguments;
-  const tokenAsset = tokenTransfer
-    ? (createTransactionArguments as TokenTransactionArguments).tokenAsset
-    : undefined;
   if (!movementAddress) {
     throw new Error("Movement address is not set.");
   }
   const sender: AccountAddressInput = movementAddress;
-  const data: InputEntryFunctionData = {
-    function:
-      transactionType === "token"
-        ? (createTokenTransactionConstants.function as `${string}::${string}::${string}`)
-        : (createMoveTransactionConstants.function as `${string}::${string}::${string}`),
-    typeArguments: tokenTransfer
-      ? createTokenTransactionConstants.typeArguments
-      : [],
-    functionArguments: tokenTransfer
-      ? [tokenAsset, recipientAddress, amount]
-      : [recipientAddress, amount],
-  };
+  const data = getEntryFunctionData(
+    createTransactionArguments.transactionType ===
+      TransactionType.ENTRY_FUNCTION
+      ? createTransactionArguments
+      : {
+          ...createTransactionArguments,
+          amount: await resolveTransferAmount(createTransactionArguments),
+        }
+  );
   let options: InputGenerateTransactionOptions | undefined;
   options = {
     ...(maxGasAmount !== undefined && { maxGasAmount }),
@@ -124,13 +444,924 @@ export const createTransaction = async (
     sender,
     data,
     options,
+    withFeePayer: !!feePayer,
+  };
+  const transaction = await movementService.buildTransaction(buildArgs);
+  if (feePayer) {
+    transaction.feePayerAddress = AccountAddress.from(feePayer.address);
+  }
+  return transaction;
+};
+
+/**
+ * Builds a transaction request and simulates it against the fullnode without signing it.
+ * @param createTransactionArguments - The transaction request to simulate.
+ * @returns A Promise that resolves to the {@link SimulateTransactionResponse}.
+ */
+export const simulateTransaction = async (
+  createTransactionArguments: CreateTransactionArguments
+): Promise<SimulateTransactionResponse> => {
+  const { movementService, signer, movementPublicKey, feePayerVaultAccountId } =
+    createTransactionArguments;
+  try {
+    const feePayer =
+      feePayerVaultAccountId !== undefined
+        ? await resolveFeePayerAccount(signer, feePayerVaultAccountId)
+        : undefined;
+    const transaction = await buildTransactionFromArguments(
+      createTransactionArguments,
+      feePayer
+    );
+    return await movementService.simulateTransaction(
+      transaction,
+      movementPublicKey,
+      feePayer?.publicKey
+    );
+  } catch (error: any) {
+    throw new Error(
+      `Failed to simulate transaction: ${formatErrorMessage(error)}`
+    );
+  }
+};
+
+/**
+ * Estimates the gas fees of a transaction by simulating it at the gas price chosen by the pricing policy.
+ * Explicit `gasUnitPrice` and `maxGasAmount` values in the request take precedence over the policy.
+ * Otherwise the gas limit is capped at what the balance of the gas payer, the sender or the fee payer, can cover.
+ * @param createTransactionArguments - The transaction request to estimate.
+ * @param gasPricingPolicy - Optional policy selecting the gas price priority and a fee cap in octas.
+ * @returns A Promise that resolves to a {@link FeeEstimate} with the gas price and limit to use.
+ * @throws Will throw an error if fetching gas prices or simulating the transaction fails.
+ */
+export const estimateFees = async (
+  createTransactionArguments: CreateTransactionArguments,
+  gasPricingPolicy: GasPricingPolicy = {}
+): Promise<FeeEstimate> => {
+  const { movementService, signer, movementAddress, feePayerVaultAccountId } =
+    createTransactionArguments;
+  const priority = gasPricingPolicy.priority ?? GasPriority.MARKET;
+  const gasPrices = await movementService.getGasPriceEstimation();
+  const gasUnitPrice =
+    createTransactionArguments.gasUnitPrice ?? gasPrices[priority];
+  // Gas is prepaid, so a gas limit the payer's balance cannot cover would fail the simulation
+  let affordableGasAmount: number | undefined;
+  if (createTransactionArguments.maxGasAmount === undefined) {
+    const gasPayerAddress =
+      feePayerVaultAccountId !== undefined
+        ? (await resolveFeePayerAccount(signer, feePayerVaultAccountId)).address
+        : movementAddress;
+    const balance = await movementService.getCoinBalance(gasPayerAddress);
+    affordableGasAmount = Math.min(
+      DEFAULT_MAX_GAS_AMOUNT,
+      Number(balance / BigInt(Math.max(gasUnitPrice, 1)))
+    );
+  }
+  const simulation = await simulateTransaction({
+    ...createTransactionArguments,
+    gasUnitPrice,
+    maxGasAmount:
+      createTransactionArguments.maxGasAmount ?? affordableGasAmount,
+  });
+
+  let maxGasAmount =
+    createTransactionArguments.maxGasAmount ??
+    Math.min(
+      Math.ceil(
+        simulation.gasUsed * gasEstimationConstants.gasBufferMultiplier
+      ),
+      affordableGasAmount ?? DEFAULT_MAX_GAS_AMOUNT
+    );
+  const estimatedFee = BigInt(simulation.gasUsed) * BigInt(gasUnitPrice);
+  let exceedsMaxFee = false;
+  if (gasPricingPolicy.maxFee !== undefined) {
+    const maxFee = BigInt(gasPricingPolicy.maxFee);
+    exceedsMaxFee = estimatedFee > maxFee;
+    // Never allow the gas limit to spend more than the cap
+    maxGasAmount = Math.min(
+      maxGasAmount,
+      Number(maxFee / BigInt(Math.max(gasUnitPrice, 1)))
+    );
+  }
+  return {
+    success: simulation.success,
+    vmStatus: simulation.vmStatus,
+    priority,
+    gasUnitPrice,
+    gasUsed: simulation.gasUsed,
+    maxGasAmount,
+    estimatedFee: estimatedFee.toString(),
+    maxFee: (BigInt(maxGasAmount) * BigInt(gasUnitPrice)).toString(),
+    exceedsMaxFee,
+    gasPrices,
+  };
+};
+
+/**
+ * Computes a MOVE transfer that sends the whole balance minus the reserve and the maximum gas fee.
+ * The gas used is measured by simulating the transfer, and the gas limit adds the usual headroom to it
+ * unless the caller passed an explicit `maxGasAmount`, which is kept.
+ * The unused part of the maximum gas fee is refunded, so the account keeps slightly more than the reserve.
+ * Sponsored transfers send everything above the reserve since the fee payer covers the gas.
+ * @param moveTransactionArguments - The MOVE transfer request, its amount is ignored.
+ * @returns A Promise that resolves to the transfer request with the amount, gas unit price and max gas amount set.
+ * @throws Will throw an error if the gas values are no positive integers, the simulation fails or the balance does not cover the reserve and the gas fee.
+ */
+export const resolveSendAllArguments = async (
+  moveTransactionArguments: MoveTransactionArguments
+): Promise<MoveTransactionArguments> => {
+  const {
+    movementService,
+    movementAddress,
+    reserveAmount,
+    feePayerVaultAccountId,
+    gasPricingPolicy,
+  } = moveTransactionArguments;
+  const reserve =
+    reserveAmount !== undefined
+      ? parseAmount(reserveAmount, AmountUnit.BASE, 0)
+      : BigInt(0);
+  const balance = await movementService.getCoinBalance(movementAddress);
+  const available = balance - reserve;
+  if (available <= BigInt(0)) {
+    throw new Error(
+      `Balance of ${balance} octas does not exceed the reserve of ${reserve} octas`
+    );
+  }
+  // A retry resolves to another amount once the balance changed, so the key keeps the fingerprint of "max"
+  const requestFingerprint = getRequestFingerprint(moveTransactionArguments);
+  if (feePayerVaultAccountId !== undefined) {
+    return {
+      ...moveTransactionArguments,
+      amount: available,
+      amountUnit: AmountUnit.BASE,
+      requestFingerprint,
+    };
+  }
+
+  const gasUnitPrice =
+    moveTransactionArguments.gasUnitPrice ??
+    (await movementService.getGasPriceEstimation())[
+      gasPricingPolicy?.priority ?? GasPriority.MARKET
+    ];
+  if (!Number.isInteger(gasUnitPrice) || gasUnitPrice <= 0) {
+    throw new Error(
+      `Invalid gas unit price ${gasUnitPrice}: expected a positive integer`
+    );
+  }
+  // Gas is prepaid from the same balance, so the simulation may only reserve what is left after a minimal transfer
+  const affordableGasAmount = Number(
+    (available - BigInt(1)) / BigInt(gasUnitPrice)
+  );
+  const requestedMaxGasAmount = moveTransactionArguments.maxGasAmount;
+  if (requestedMaxGasAmount !== undefined) {
+    if (
+      !Number.isInteger(requestedMaxGasAmount) ||
+      requestedMaxGasAmount <= 0
+    ) {
+      throw new Error(
+        `Invalid max gas amount ${requestedMaxGasAmount}: expected a positive integer`
+      );
+    }
+    if (requestedMaxGasAmount > affordableGasAmount) {
+      throw new Error(
+        `Balance of ${balance} octas does not cover the max gas amount of ${requestedMaxGasAmount} at ${gasUnitPrice} octas per unit and the reserve of ${reserve} octas`
+      );
+    }
+  }
+  const simulationMaxGasAmount =
+    requestedMaxGasAmount ??
+    Math.min(DEFAULT_MAX_GAS_AMOUNT, affordableGasAmount);
+  const simulation = await simulateTransaction({
+    ...moveTransactionArguments,
+    amount: BigInt(1),
+    amountUnit: AmountUnit.BASE,
+    gasUnitPrice,
+    maxGasAmount: simulationMaxGasAmount,
+  });
+  if (!simulation.success) {
+    throw new Error(
+      `Transaction simulation failed with VM status: ${simulation.vmStatus}`
+    );
+  }
+  const gasFee = BigInt(simulation.gasUsed) * BigInt(gasUnitPrice);
+  // An explicit gas limit is kept as it is, like transfers that skip the gas pricing policy
+  let maxGasAmount =
+    requestedMaxGasAmount ??
+    Math.min(
+      Math.ceil(
+        simulation.gasUsed * gasEstimationConstants.gasBufferMultiplier
+      ),
+      simulationMaxGasAmount
+    );
+  if (gasPricingPolicy?.maxFee !== undefined) {
+    const maxFee = parseAmount(gasPricingPolicy.maxFee, AmountUnit.BASE, 0);
+    if (gasFee > maxFee) {
+      throw new Error(
+        `Estimated fee of ${gasFee} octas exceeds the maximum fee of ${gasPricingPolicy.maxFee} octas`
+      );
+    }
+    if (requestedMaxGasAmount === undefined) {
+      maxGasAmount = Math.min(
+        maxGasAmount,
+        Number(maxFee / BigInt(gasUnitPrice))
+      );
+    }
+  }
+  // The whole gas limit is prepaid, what the transfer does not use is refunded and stays in the account
+  const maxGasFee = BigInt(maxGasAmount) * BigInt(gasUnitPrice);
+  const amount = available - maxGasFee;
+  if (amount <= BigInt(0)) {
+    throw new Error(
+      `Balance of ${balance} octas does not cover the maximum gas fee of ${maxGasFee} octas and the reserve of ${reserve} octas`
+    );
+  }
+  return {
+    ...moveTransactionArguments,
+    amount,
+    amountUnit: AmountUnit.BASE,
+    gasUnitPrice,
+    maxGasAmount,
+    requestFingerprint,
+  };
+};
+
+/**
+ * Sets the gas price and limit of a transaction from its gas pricing policy,
+ * unless the caller passed explicit gas values or no policy is configured.
+ * @param createTransactionArguments - The transaction request to price.
+ * @returns A Promise that resolves to the transaction request with `gasUnitPrice` and `maxGasAmount` set.
+ * @throws Will throw an error if the simulation fails or the estimated fee exceeds the policy's cap.
+ */
+export const applyGasPricingPolicy = async (
+  createTransactionArguments: CreateTransactionArguments
+): Promise<CreateTransactionArguments> => {
+  const { gasPricingPolicy, gasUnitPrice, maxGasAmount } =
+    createTransactionArguments;
+  if (
+    !gasPricingPolicy ||
+    gasUnitPrice !== undefined ||
+    maxGasAmount !== undefined
+  ) {
+    return createTransactionArguments;
+  }
+  const feeEstimate = await estimateFees(
+    createTransactionArguments,
+    gasPricingPolicy
+  );
+  if (!feeEstimate.success) {
+    throw new Error(
+      `Transaction simulation failed with VM status: ${feeEstimate.vmStatus}`
+    );
+  }
+  if (feeEstimate.exceedsMaxFee) {
+    throw new Error(
+      `Estimated fee of ${feeEstimate.estimatedFee} octas exceeds the maximum fee of ${gasPricingPolicy.maxFee} octas`
+    );
+  }
+  return {
+    ...createTransactionArguments,
+    gasUnitPrice: feeEstimate.gasUnitPrice,
+    maxGasAmount: feeEstimate.maxGasAmount,
+  };
+};
+
+/**
+ * Creates the initial store record for a built and serialized transaction.
+ * @param createTransactionArguments - The transaction request the transaction was built from.
+ * @param transaction - The built {@link SimpleTransaction}.
+ * @param signingMessage - The serialized signing message of the transaction.
+ * @param autoSubmit - Whether the transaction is submitted as soon as it is signed.
+ * @param feePayer - Optional fee payer account that sponsors the gas fees.
+ * @returns A new {@link TransactionRecord} in the `prepared` state.
+ */
+export const createTransactionRecord = (
+  createTransactionArguments: CreateTransactionArguments,
+  transaction: SimpleTransaction,
+  signingMessage: Uint8Array,
+  autoSubmit: boolean,
+  feePayer?: FeePayerAccount
+): TransactionRecord => {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    vaultAccountId: String(createTransactionArguments.vaultAccountId),
+    addressIndex: createTransactionArguments.addressIndex || undefined,
+    network:
+      createTransactionArguments.movementService.getNetworkConfig().network,
+    transactionType: createTransactionArguments.transactionType,
+    status: TransactionStatus.PREPARED,
+    senderAddress: createTransactionArguments.movementAddress,
+    senderPublicKey: createTransactionArguments.movementPublicKey,
+    rawTransaction: transaction.bcsToHex().toString(),
+    signingMessage: Buffer.from(signingMessage).toString("hex"),
+    autoSubmit,
+    feePayerVaultAccountId:
+      feePayer !== undefined ? String(feePayer.vaultAccountId) : undefined,
+    feePayerPublicKey: feePayer?.publicKey,
+    signingTimeoutMs: createTransactionArguments.signingTimeoutMs,
+    idempotencyKey: createTransactionArguments.idempotencyKey,
+    requestFingerprint: createTransactionArguments.idempotencyKey
+      ? getRequestFingerprint(createTransactionArguments)
+      : undefined,
+    note: createTransactionArguments.note,
+    customerRefId: createTransactionArguments.customerRefId,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Returns the Fireblocks external IDs of the sender's and the fee payer's signing requests for an idempotency key.
+ * @param idempotencyKey - The idempotency key of the transaction, if any.
+ * @returns The external IDs, both undefined without a key.
+ */
+export const getExternalTxIds = (
+  idempotencyKey?: string
+): [string | undefined, string | undefined] => {
+  return idempotencyKey
+    ? [
+        idempotencyKey,
+        `${idempotencyKey}${idempotencyConstants.feePayerSuffix}`,
+      ]
+    : [undefined, undefined];
+};
+
+/**
+ * Describes a transaction for the approvers of its Fireblocks signing request, from the decoded payload:
+ * the called function, the amount and recipient of transfers, the network and the sequence number.
+ * @param transaction - The built or deserialized {@link SimpleTransaction}.
+ * @param movementService - The service of the transaction's network, used to look up the asset's symbol and decimals.
+ * @returns A Promise that resolves to the note, e.g.
+ * "Transfer 1.5 MOVE to 0x... via 0x1::aptos_account::transfer on Movement mainnet, sequence number 12".
+ */
+export const describeTransaction = async (
+  transaction: SimpleTransaction,
+  movementService: MovementService
+): Promise<string> => {
+  const { payload, sequence_number } = transaction.rawTransaction;
+  const feePayer = transaction.feePayerAddress
+    ? `, gas paid by ${transaction.feePayerAddress.toString()}`
+    : "";
+  const context = `on Movement ${
+    movementService.getNetworkConfig().network
+  }, sequence number ${sequence_number}${feePayer}`;
+  if (!(payload instanceof TransactionPayloadEntryFunction)) {
+    return `Movement transaction ${context}`;
+  }
+  const { module_name, function_name, args } = payload.entryFunction;
+  const functionId = `${module_name.address.toString()}::${
+    module_name.name.identifier
+  }::${function_name.identifier}`;
+
+  // Arguments of deserialized transactions are plain bytes, so both transfers are decoded from their BCS form
+  const argumentBytes = args.map((arg) => arg.bcsToBytes());
+  let transfer: [Uint8Array | undefined, Uint8Array, Uint8Array] | undefined;
+  if (
+    functionId === createMoveTransactionConstants.function &&
+    argumentBytes.length === 2
+  ) {
+    transfer = [undefined, argumentBytes[0], argumentBytes[1]];
+  } else if (
+    functionId === createTokenTransactionConstants.function &&
+    argumentBytes.length === 3
+  ) {
+    transfer = [argumentBytes[0], argumentBytes[1], argumentBytes[2]];
+  }
+  // Addresses are 32 bytes and u64 amounts 8 bytes
+  if (
+    !transfer ||
+    (transfer[0] !== undefined && transfer[0].length !== 32) ||
+    transfer[1].length !== 32 ||
+    transfer[2].length !== 8
+  ) {
+    return `Call ${functionId} ${context}`;
+  }
+
+  const [assetBytes, recipientBytes, amountBytes] = transfer;
+  const asset = assetBytes
+    ? AccountAddress.from(assetBytes).toString()
+    : undefined;
+  const recipient = AccountAddress.from(recipientBytes).toString();
+  const amount = new Deserializer(amountBytes).deserializeU64();
+  let formattedAmount: string;
+  try {
+    const [decimals, symbol] = await Promise.all([
+      movementService.getAssetDecimals(asset),
+      movementService.getAssetSymbol(asset),
+    ]);
+    formattedAmount = `${formatAmount(amount, decimals)} ${symbol}`;
+  } catch (error) {
+    // The note is informational, so a failed metadata lookup must not block the transfer
+    console.error("Failed to look up the transferred asset:", error);
+    formattedAmount = `${amount} base units of ${asset ?? "MOVE"}`;
+  }
+  return `Transfer ${formattedAmount} to ${recipient} via ${functionId} ${context}`;
+};
+
+/**
+ * Returns the details of the sender's and the fee payer's Fireblocks signing requests for a transaction.
+ * @param transaction - The transaction to sign.
+ * @param movementService - The service of the transaction's network.
+ * @param options - The custom note, customer reference ID and idempotency key of the transaction, if any.
+ * Without a custom note, the note is generated with {@link describeTransaction}.
+ * @returns A Promise that resolves to the {@link SigningRequestDetails} of the sender and of the fee payer.
+ */
+export const getSigningRequestDetails = async (
+  transaction: SimpleTransaction,
+  movementService: MovementService,
+  options: { note?: string; customerRefId?: string; idempotencyKey?: string }
+): Promise<[SigningRequestDetails, SigningRequestDetails]> => {
+  const note =
+    options.note ?? (await describeTransaction(transaction, movementService));
+  const [externalTxId, feePayerExternalTxId] = getExternalTxIds(
+    options.idempotencyKey
+  );
+  return [
+    { note, customerRefId: options.customerRefId, externalTxId },
+    {
+      note: `Gas fee sponsorship: ${note}`,
+      customerRefId: options.customerRefId,
+      externalTxId: feePayerExternalTxId,
+    },
+  ];
+};
+
+// Cancels signing requests whose sibling request failed, so they cannot be approved on their own later
+const cancelSigningRequests = async (
+  signer: TransactionSigner,
+  requestIds: string[]
+): Promise<void> => {
+  await Promise.all(
+    requestIds.map((requestId) =>
+      signer
+        .cancelSigningRequest(requestId)
+        .catch((error) =>
+          console.error(
+            `Failed to cancel signing request ${requestId}: ${formatErrorMessage(
+              error
+            )}`
+          )
+        )
+    )
+  );
+};
+
+/**
+ * Creates the signing requests of a transaction, e.g. of the sender and of the fee payer.
+ * If one of them cannot be created, the others are cancelled.
+ * @param signer - The signer of the vaults.
+ * @param signingMessage - The signing message of the transaction.
+ * @param requests - The vault, address index and {@link SigningRequestDetails} of each signing request.
+ * @returns A Promise that resolves to the IDs of the signing requests, in the same order.
+ * @throws Will throw the error of the first signing request that failed.
+ */
+export const requestRawSignatures = async (
+  signer: TransactionSigner,
+  signingMessage: Uint8Array,
+  requests: {
+    vaultAccountId: string | number;
+    details: SigningRequestDetails;
+    addressIndex?: number;
+  }[]
+): Promise<string[]> => {
+  const results = await Promise.all(
+    requests.map(({ vaultAccountId, details, addressIndex }) =>
+      signer
+        .requestRawSignature(
+          signingMessage,
+          vaultAccountId,
+          details,
+          addressIndex
+        )
+        .then(
+          (requestId) => ({ requestId, error: undefined }),
+          (error) => ({ requestId: undefined, error })
+        )
+    )
+  );
+  const failed = results.find((result) => result.requestId === undefined);
+  if (failed) {
+    await cancelSigningRequests(
+      signer,
+      results
+        .map((result) => result.requestId)
+        .filter((requestId): requestId is string => requestId !== undefined)
+    );
+    throw failed.error;
+  }
+  return results.map((result) => result.requestId);
+};
+
+/**
+ * Waits for the signatures of the signing requests of a transaction.
+ * As soon as one of them fails, is rejected or times out, the others are cancelled.
+ * @param signer - The signer of the vaults.
+ * @param requestIds - The IDs returned by {@link requestRawSignatures}.
+ * @param signingTimeoutMs - Optional signing timeout of each request.
+ * @returns A Promise that resolves to the signatures, in the same order.
+ * @throws Will throw the error of the first signing request that failed.
+ */
+export const waitForRawSignatures = async (
+  signer: TransactionSigner,
+  requestIds: string[],
+  signingTimeoutMs?: number
+): Promise<SignedMessageSignature[]> => {
+  // Only the first failure cancels the others, which then fail in turn
+  let failed = false;
+  return Promise.all(
+    requestIds.map((requestId) =>
+      signer
+        .waitForRawSignature(requestId, signingTimeoutMs)
+        .catch(async (error) => {
+          if (!failed) {
+            failed = true;
+            await cancelSigningRequests(
+              signer,
+              requestIds.filter((other) => other !== requestId)
+            );
+          }
+          throw error;
+        })
+    )
+  );
+};
+
+// The parts of a transaction request that decide what it sends, gas and signing options may change on a retry
+const describeRequest = (
+  createTransactionArguments: CreateTransactionArguments
+): Record<string, unknown> => {
+  const { transactionType, amountUnit, reserveAmount, feePayerVaultAccountId } =
+    createTransactionArguments;
+  const options = { amountUnit, reserveAmount, feePayerVaultAccountId };
+  switch (createTransactionArguments.transactionType) {
+    case TransactionType.MOVE:
+      return {
+        transactionType,
+        recipientAddress:
+          createTransactionArguments.recipientAddress.toLowerCase(),
+        amount: String(createTransactionArguments.amount),
+        ...options,
+      };
+    case TransactionType.TOKEN:
+      return {
+        transactionType,
+        recipientAddress:
+          createTransactionArguments.recipientAddress.toLowerCase(),
+        amount: String(createTransactionArguments.amount),
+        tokenAsset: createTransactionArguments.tokenAsset,
+        ...options,
+      };
+    default:
+      return {
+        transactionType,
+        function: createTransactionArguments.function,
+        typeArguments: createTransactionArguments.typeArguments,
+        functionArguments: createTransactionArguments.functionArguments,
+        ...options,
+      };
+  }
+};
+
+/**
+ * Fingerprints what a transaction request, or a batch of them, sends: the recipient, amount, token type
+ * or entry function and its arguments. A request repeating an idempotency key has to have the same fingerprint.
+ * @param createTransactionArguments - The transaction request, or the requests of a batch in order.
+ * @returns The SHA3-256 hex digest of the request.
+ */
+export const getRequestFingerprint = (
+  createTransactionArguments:
+    CreateTransactionArguments | CreateTransactionArguments[]
+): string => {
+  if (
+    !Array.isArray(createTransactionArguments) &&
+    createTransactionArguments.requestFingerprint
+  ) {
+    return createTransactionArguments.requestFingerprint;
+  }
+  const description = Array.isArray(createTransactionArguments)
+    ? createTransactionArguments.map(describeRequest)
+    : describeRequest(createTransactionArguments);
+  return sha3_256(
+    JSON.stringify(description, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  );
+};
+
+// Refuses the records of an idempotency key if it was used for another vault, network or request
+const checkIdempotentRecords = (
+  records: TransactionRecord[],
+  idempotencyKey: string,
+  createTransactionArguments: CreateTransactionArguments,
+  requestFingerprint: string
+): void => {
+  const {
+    vaultAccountId,
+    addressIndex = derivationPath.addressIndex,
+    movementService,
+  } = createTransactionArguments;
+  const network = movementService.getNetworkConfig().network;
+  for (const record of records) {
+    if (
+      record.vaultAccountId !== String(vaultAccountId) ||
+      (record.addressIndex ?? derivationPath.addressIndex) !== addressIndex ||
+      (record.network ?? network) !== network
+    ) {
+      throw new IdempotencyKeyMismatchError(
+        idempotencyKey,
+        `Idempotency key ${idempotencyKey} was already used by vault ${
+          record.vaultAccountId
+        } address ${record.addressIndex ?? derivationPath.addressIndex} on ${
+          record.network
+        }`
+      );
+    }
+    if (
+      (record.requestFingerprint ?? requestFingerprint) !== requestFingerprint
+    ) {
+      throw new IdempotencyKeyMismatchError(
+        idempotencyKey,
+        `Idempotency key ${idempotencyKey} was already used for another request`
+      );
+    }
+  }
+};
+
+/**
+ * Finds the transaction created earlier with the same idempotency key.
+ * @param transactionStore - The store holding the transaction records.
+ * @param createTransactionArguments - The transaction request, with its idempotency key.
+ * @returns A Promise that resolves to the earlier {@link TransactionRecord}, or undefined if the key is new.
+ * @throws {IdempotencyKeyMismatchError} If the key was used for a transaction of another vault or network,
+ * or for another request.
+ */
+export const findIdempotentTransaction = async (
+  transactionStore: TransactionStore,
+  createTransactionArguments: CreateTransactionArguments
+): Promise<TransactionRecord | undefined> => {
+  const { idempotencyKey } = createTransactionArguments;
+  if (!idempotencyKey) {
+    return undefined;
+  }
+  const records = await transactionStore.list({ idempotencyKey });
+  checkIdempotentRecords(
+    records,
+    idempotencyKey,
+    createTransactionArguments,
+    getRequestFingerprint(createTransactionArguments)
+  );
+  return records[0];
+};
+
+/**
+ * Finds the transactions of a batch created earlier with the same idempotency key.
+ * @param transactionStore - The store holding the transaction records.
+ * @param transactionsArguments - The transaction requests of the batch, sharing one idempotency key.
+ * @returns A Promise that resolves to the earlier {@link TransactionRecord}s in sequence number order,
+ * or to an empty array if the key is new.
+ * @throws {IdempotencyKeyMismatchError} If the key was used for transactions of another vault or network,
+ * or for another request.
+ */
+export const findIdempotentBatch = async (
+  transactionStore: TransactionStore,
+  transactionsArguments: CreateTransactionArguments[]
+): Promise<TransactionRecord[]> => {
+  const { idempotencyKey } = transactionsArguments[0];
+  if (!idempotencyKey) {
+    return [];
+  }
+  const records = await transactionStore.list({ idempotencyKey });
+  checkIdempotentRecords(
+    records,
+    idempotencyKey,
+    transactionsArguments[0],
+    getRequestFingerprint(transactionsArguments)
+  );
+  if (records.length > 0 && records.length !== transactionsArguments.length) {
+    throw new Error(
+      `Batch with idempotency key ${idempotencyKey} has ${records.length} of ${transactionsArguments.length} transactions recorded`
+    );
+  }
+  return records
+    .map((record) => ({
+      record,
+      sequenceNumber: deserializeTransaction(record.rawTransaction)
+        .rawTransaction.sequence_number,
+    }))
+    .sort((a, b) => (a.sequenceNumber < b.sequenceNumber ? -1 : 1))
+    .map(({ record }) => record);
+};
+
+// Returns the outcome of a transaction created earlier with the same idempotency key, without signing again
+const resolveIdempotentTransaction = async (
+  record: TransactionRecord,
+  movementService: MovementService
+): Promise<CommittedTransactionResponse> => {
+  if (record.transactionHash) {
+    return movementService.waitForTransaction({
+      transactionHash: record.transactionHash,
+    });
+  }
+  if (
+    record.status === TransactionStatus.FAILED ||
+    record.status === TransactionStatus.CANCELLED
+  ) {
+    throw new Error(
+      `Transaction ${record.id} with idempotency key ${record.idempotencyKey} is ${record.status}: ${record.error}`
+    );
+  }
+  throw new Error(
+    `Transaction ${record.id} with idempotency key ${record.idempotencyKey} is still ${record.status}`
+  );
+};
+
+// Returns the outcomes of a batch created earlier with the same idempotency key, without signing again
+const resolveIdempotentBatch = async (
+  records: TransactionRecord[],
+  movementService: MovementService
+): Promise<BatchTransactionResult[]> => {
+  const pending = records.find(
+    (record) =>
+      !record.transactionHash &&
+      IN_FLIGHT_TRANSACTION_STATUSES.includes(record.status)
+  );
+  if (pending) {
+    throw new Error(
+      `Transaction ${pending.id} with idempotency key ${pending.idempotencyKey} is still ${pending.status}`
+    );
+  }
+  return Promise.all(
+    records.map(async (record) => {
+      const result: BatchTransactionResult = {
+        success: record.status === TransactionStatus.COMMITTED,
+        sequenceNumber: deserializeTransaction(
+          record.rawTransaction
+        ).rawTransaction.sequence_number.toString(),
+        transferId: record.id,
+        transactionHash: record.transactionHash,
+        vmStatus: record.vmStatus,
+        error: record.error,
+      };
+      if (
+        record.status === TransactionStatus.SUBMITTED &&
+        record.transactionHash
+      ) {
+        const response = await movementService.waitForTransaction({
+          transactionHash: record.transactionHash,
+        });
+        result.success = "success" in response ? response.success : true;
+        result.vmStatus =
+          "vm_status" in response ? response.vm_status : undefined;
+      }
+      return result;
+    })
+  );
+};
+
+/**
+ * Reserves the sender's next sequence number from the configured {@link SequenceNumberService}
+ * when the caller did not pin one, so concurrent transactions from the same account do not collide.
+ * The expiration timestamp is fixed at the same time so the reservation expires with the transaction.
+ * @param createTransactionArguments - The transaction request to build.
+ * @returns A Promise that resolves to the transaction request with `accountSequenceNumber` and `expireTimestamp` set,
+ * or to the unchanged request if no sequence number has to be reserved.
+ */
+export const reserveSequenceNumber = async (
+  createTransactionArguments: CreateTransactionArguments
+): Promise<CreateTransactionArguments> => {
+  const {
+    sequenceNumberService,
+    movementService,
+    movementAddress,
+    accountSequenceNumber,
+  } = createTransactionArguments;
+  if (!sequenceNumberService || accountSequenceNumber !== undefined) {
+    return createTransactionArguments;
+  }
+  const expireTimestamp =
+    createTransactionArguments.expireTimestamp ??
+    Math.floor(Date.now() / 1000) + DEFAULT_TXN_EXP_SEC_FROM_NOW;
+  const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+    movementService,
+    movementAddress,
+    expireTimestamp
+  );
+  return {
+    ...createTransactionArguments,
+    accountSequenceNumber: sequenceNumber,
+    expireTimestamp,
   };
+};
+
+export const createTransaction = async (
+  createTransactionArguments: CreateTransactionArguments
+): Promise<TransferResponse> => {
+  const {
+    movementService,
+    signer,
+    vaultAccountId,
+    addressIndex,
+    movementAddress,
+    movementPublicKey,
+    simulate,
+    feePayerVaultAccountId,
+    transactionStore,
+    sequenceNumberService,
+    signingTimeoutMs,
+    idempotencyKey,
+  } = createTransactionArguments;
+
+  // Track every step in the store, if one is configured, so the transfer can be resumed after a restart
+  let record: TransactionRecord | undefined;
+  const updateRecord = async (
+    changes: Partial<TransactionRecord>
+  ): Promise<void> => {
+    if (record && transactionStore) {
+      record = await transactionStore.update(record.id, changes);
+    }
+  };
+  let reservedSequenceNumber: bigint | undefined;
+  let submitted = false;
+
   try {
-    const transaction = await movementService.buildTransaction(buildArgs);
+    if (idempotencyKey && transactionStore) {
+      const previous = await findIdempotentTransaction(
+        transactionStore,
+        createTransactionArguments
+      );
+      if (previous) {
+        return {
+          ...(await resolveIdempotentTransaction(previous, movementService)),
+          transferId: previous.id,
+        };
+      }
+    }
+    const feePayer =
+      feePayerVaultAccountId !== undefined
+        ? await resolveFeePayerAccount(signer, feePayerVaultAccountId)
+        : undefined;
+    const transactionArguments = await reserveSequenceNumber(
+      await applyGasPricingPolicy(createTransactionArguments)
+    );
+    if (
+      createTransactionArguments.accountSequenceNumber === undefined &&
+      transactionArguments.accountSequenceNumber !== undefined
+    ) {
+      reservedSequenceNumber = BigInt(
+        transactionArguments.accountSequenceNumber
+      );
+    }
+    const transaction = await buildTransactionFromArguments(
+      transactionArguments,
+      feePayer
+    );
+    if (simulate) {
+      const simulation = await movementService.simulateTransaction(
+        transaction,
+        movementPublicKey,
+        feePayer?.publicKey
+      );
+      if (!simulation.success) {
+        throw new Error(
+          `Transaction simulation failed with VM status: ${simulation.vmStatus}`
+        );
+      }
+    }
     const signingMessage = movementService.serializeTransaction(transaction);
-    const rawSignature = await fireblocksService.rawSignTransaction(
-      signingMessage,
-      vaultAccountId
+    if (transactionStore) {
+      record = createTransactionRecord(
+        createTransactionArguments,
+        transaction,
+        signingMessage,
+        true,
+        feePayer
+      );
+      await transactionStore.save(record);
+    }
+
+    await updateRecord({ status: TransactionStatus.SIGNING });
+    const [details, feePayerDetails] = await getSigningRequestDetails(
+      transaction,
+      movementService,
+      createTransactionArguments
+    );
+    const requestIds = await requestRawSignatures(signer, signingMessage, [
+      { vaultAccountId, details, addressIndex },
+      ...(feePayer
+        ? [
+            {
+              vaultAccountId: feePayer.vaultAccountId,
+              details: feePayerDetails,
+            },
+          ]
+        : []),
+    ]);
+    const [fireblocksTxId, feePayerFireblocksTxId] = requestIds;
+    await updateRecord({ fireblocksTxId, feePayerFireblocksTxId });
+    const [rawSignature, feePayerRawSignature] = await waitForRawSignatures(
+      signer,
+      requestIds,
+      signingTimeoutMs
     );
     const signatureBytes = checkSignature(rawSignature);
     if (!movementPublicKey) {
@@ -142,20 +1373,331 @@ export const createTransaction = async (
       movementPublicKey,
       signatureBytes
     );
+    const feePayerSignatureBytes = feePayer
+      ? checkSignature(feePayerRawSignature)
+      : undefined;
+    const feePayerAuthenticator = feePayer
+      ? movementService.createSenderAuthenticator(
+          feePayer.publicKey,
+          feePayerSignatureBytes
+        )
+      : undefined;
+    await updateRecord({
+      status: TransactionStatus.SIGNED,
+      signature: signatureBytes.toString("hex"),
+      feePayerSignature: feePayerSignatureBytes?.toString("hex"),
+    });
+
     const submitArgs: SubmitTransactionArguments = {
       transaction,
       senderAuthenticator,
+      feePayerAuthenticator,
     };
     const submittedTx = await movementService.submitTransaction(submitArgs);
+    submitted = true;
+    await updateRecord({
+      status: TransactionStatus.SUBMITTED,
+      transactionHash: submittedTx.hash,
+    });
     const waitArgs: WaitForTransactionArguments = {
       transactionHash: submittedTx.hash,
     };
-    const response = movementService.waitForTransaction(waitArgs);
+    const response = await movementService.waitForTransaction(waitArgs);
+    await updateRecord({
+      status: TransactionStatus.COMMITTED,
+      vmStatus: "vm_status" in response ? response.vm_status : undefined,
+    });
+    if (reservedSequenceNumber !== undefined) {
+      sequenceNumberService?.confirmSequenceNumber(
+        movementAddress,
+        reservedSequenceNumber
+      );
+    }
     console.log(response);
-    return response;
+    return { ...response, transferId: record?.id };
   } catch (error: any) {
+    if (reservedSequenceNumber !== undefined) {
+      // A submitted transaction may still have used its sequence number, so only hand it out again if it never left
+      if (submitted) {
+        sequenceNumberService?.confirmSequenceNumber(
+          movementAddress,
+          reservedSequenceNumber
+        );
+      } else {
+        sequenceNumberService?.releaseSequenceNumber(
+          movementAddress,
+          reservedSequenceNumber
+        );
+      }
+    }
+    await updateRecord({
+      status:
+        error instanceof SigningTimeoutError
+          ? TransactionStatus.CANCELLED
+          : TransactionStatus.FAILED,
+      error: formatErrorMessage(error),
+    }).catch((storeError) =>
+      console.error("Failed to record transaction failure:", storeError)
+    );
+    if (
+      error instanceof SigningTimeoutError ||
+      error instanceof IdempotencyKeyMismatchError
+    ) {
+      throw error;
+    }
     throw new Error(
       `Failed to create transaction: ${formatErrorMessage(error)}`
     );
   }
 };
+
+/**
+ * Creates several transactions from the same account with consecutive sequence numbers.
+ * All transactions are signed through a single Fireblocks RAW signing request, then submitted in
+ * sequence number order and awaited together. With a transaction store, every transaction gets its own record.
+ * A batch with the idempotency key of an earlier batch returns the outcomes of that batch instead.
+ * @param transactionsArguments - The transaction requests, all sent by the same vault account.
+ * @returns A Promise that resolves to one {@link BatchTransactionResult} per request, in the same order.
+ * @throws Will throw an error if building or signing the batch fails, in which case nothing is submitted.
+ */
+export const createBatchTransactions = async (
+  transactionsArguments: CreateTransactionArguments[]
+): Promise<BatchTransactionResult[]> => {
+  if (transactionsArguments.length === 0) {
+    throw new Error("No transactions to create");
+  }
+  const {
+    movementService,
+    signer,
+    vaultAccountId,
+    addressIndex,
+    movementAddress,
+    movementPublicKey,
+    transactionStore,
+    sequenceNumberService,
+    idempotencyKey,
+  } = transactionsArguments[0];
+  if (idempotencyKey && transactionStore) {
+    const previous = await findIdempotentBatch(
+      transactionStore,
+      transactionsArguments
+    );
+    if (previous.length > 0) {
+      return resolveIdempotentBatch(previous, movementService);
+    }
+  }
+  const expireTimestamp =
+    transactionsArguments[0].expireTimestamp ??
+    Math.floor(Date.now() / 1000) + DEFAULT_TXN_EXP_SEC_FROM_NOW;
+
+  let sequenceNumbers: bigint[];
+  try {
+    if (sequenceNumberService) {
+      sequenceNumbers = await sequenceNumberService.reserveSequenceNumbers(
+        movementService,
+        movementAddress,
+        transactionsArguments.length,
+        expireTimestamp
+      );
+    } else {
+      const firstSequenceNumber =
+        await movementService.getAccountSequenceNumber(movementAddress);
+      sequenceNumbers = transactionsArguments.map(
+        (_, index) => firstSequenceNumber + BigInt(index)
+      );
+    }
+  } catch (error: any) {
+    throw new Error(
+      `Failed to create batch transactions: ${formatErrorMessage(error)}`
+    );
+  }
+  // Release from the highest number down so the allocator can hand them out again
+  const releaseSequenceNumbers = (fromIndex: number): void => {
+    for (let i = sequenceNumbers.length - 1; i >= fromIndex; i--) {
+      sequenceNumberService?.releaseSequenceNumber(
+        movementAddress,
+        sequenceNumbers[i]
+      );
+    }
+  };
+
+  // Track every transaction in the store, if one is configured, so it can be looked up and resumed after a restart
+  const records: TransactionRecord[] = [];
+  const updateRecord = async (
+    index: number,
+    changes: Partial<TransactionRecord>
+  ): Promise<void> => {
+    const record = records[index];
+    if (!record || !transactionStore) {
+      return;
+    }
+    try {
+      records[index] = await transactionStore.update(record.id, changes);
+    } catch (storeError) {
+      console.error(`Failed to record batch transaction ${index}:`, storeError);
+    }
+  };
+
+  let transactions: SimpleTransaction[];
+  let signatures: SignedMessageSignature[];
+  try {
+    transactions = await Promise.all(
+      transactionsArguments.map((transactionArguments, index) =>
+        buildTransactionFromArguments({
+          ...transactionArguments,
+          accountSequenceNumber: sequenceNumbers[index],
+          expireTimestamp,
+        })
+      )
+    );
+    const signingMessages = transactions.map((transaction) =>
+      movementService.serializeTransaction(transaction)
+    );
+    if (transactionStore) {
+      for (const [index, transaction] of transactions.entries()) {
+        records[index] = {
+          ...createTransactionRecord(
+            transactionsArguments[index],
+            transaction,
+            signingMessages[index],
+            true
+          ),
+          requestFingerprint: idempotencyKey
+            ? getRequestFingerprint(transactionsArguments)
+            : undefined,
+          status: TransactionStatus.SIGNING,
+        };
+        await transactionStore.save(records[index]);
+      }
+    }
+    const { note, customerRefId } = transactionsArguments[0];
+    const descriptions = note
+      ? []
+      : await Promise.all(
+          transactions.map((transaction) =>
+            describeTransaction(transaction, movementService)
+          )
+        );
+    signatures = await signer.rawSignMessages(
+      signingMessages,
+      vaultAccountId,
+      undefined,
+      {
+        note:
+          note ??
+          `Batch of ${transactions.length} transactions: ${descriptions.join(
+            "; "
+          )}`,
+        customerRefId,
+        externalTxId: idempotencyKey,
+      },
+      addressIndex
+    );
+  } catch (error: any) {
+    releaseSequenceNumbers(0);
+    await Promise.all(
+      records.map((_, index) =>
+        updateRecord(index, {
+          status:
+            error instanceof SigningTimeoutError
+              ? TransactionStatus.CANCELLED
+              : TransactionStatus.FAILED,
+          error: formatErrorMessage(error),
+        })
+      )
+    );
+    if (error instanceof SigningTimeoutError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to create batch transactions: ${formatErrorMessage(error)}`
+    );
+  }
+
+  // Submit in order, a transaction cannot execute while an earlier sequence number is missing
+  const results: BatchTransactionResult[] = [];
+  let failedSubmissionIndex: number | undefined;
+  for (let i = 0; i < transactions.length; i++) {
+    const sequenceNumber = sequenceNumbers[i].toString();
+    const transferId = records[i]?.id;
+    if (failedSubmissionIndex !== undefined) {
+      const error = `Not submitted because transaction ${failedSubmissionIndex} failed to submit`;
+      await updateRecord(i, { status: TransactionStatus.FAILED, error });
+      results.push({ success: false, sequenceNumber, transferId, error });
+      continue;
+    }
+    try {
+      const signatureBytes = checkSignature(signatures[i]);
+      await updateRecord(i, {
+        status: TransactionStatus.SIGNED,
+        signature: signatureBytes.toString("hex"),
+      });
+      const senderAuthenticator = movementService.createSenderAuthenticator(
+        movementPublicKey,
+        signatureBytes
+      );
+      const submittedTx = await movementService.submitTransaction({
+        transaction: transactions[i],
+        senderAuthenticator,
+      });
+      await updateRecord(i, {
+        status: TransactionStatus.SUBMITTED,
+        transactionHash: submittedTx.hash,
+      });
+      results.push({
+        success: false,
+        sequenceNumber,
+        transferId,
+        transactionHash: submittedTx.hash,
+      });
+    } catch (error: any) {
+      failedSubmissionIndex = i;
+      await updateRecord(i, {
+        status: TransactionStatus.FAILED,
+        error: formatErrorMessage(error),
+      });
+      results.push({
+        success: false,
+        sequenceNumber,
+        transferId,
+        error: formatErrorMessage(error),
+      });
+    }
+  }
+  if (failedSubmissionIndex !== undefined) {
+    releaseSequenceNumbers(failedSubmissionIndex);
+  }
+
+  await Promise.all(
+    results.map(async (result, index) => {
+      if (!result.transactionHash) {
+        return;
+      }
+      try {
+        const response = await movementService.waitForTransaction({
+          transactionHash: result.transactionHash,
+        });
+        result.success = "success" in response ? response.success : true;
+        result.vmStatus =
+          "vm_status" in response ? response.vm_status : undefined;
+        await updateRecord(index, {
+          status: result.success
+            ? TransactionStatus.COMMITTED
+            : TransactionStatus.FAILED,
+          vmStatus: result.vmStatus,
+        });
+      } catch (error: any) {
+        result.error = formatErrorMessage(error);
+        await updateRecord(index, {
+          status: TransactionStatus.FAILED,
+          error: result.error,
+        });
+      }
+      sequenceNumberService?.confirmSequenceNumber(
+        movementAddress,
+        sequenceNumbers[index]
+      );
+    })
+  );
+  return results;
+};
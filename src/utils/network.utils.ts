@@ -0,0 +1,86 @@
+import { config } from "../config";
+import { networkProfiles } from "../constants";
+import { MovementConfig, MovementNetwork } from "../services/types";
+
+// APTOS_FULLNODE_URL and APTOS_INDEXER_URL accept a comma-separated list, the first URL being the primary
+const parseUrls = (value?: string): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+
+export const isMovementNetwork = (network: unknown): boolean =>
+  Object.values(MovementNetwork).includes(network as MovementNetwork);
+
+/**
+ * Returns the network selected by the MOVEMENT_NETWORK environment variable, mainnet by default.
+ * @throws Will throw an error if MOVEMENT_NETWORK is not a known network.
+ */
+export const getDefaultNetwork = (): MovementNetwork => {
+  const network = config.aptos.NETWORK || MovementNetwork.MAINNET;
+  if (!isMovementNetwork(network)) {
+    throw new Error(
+      `Unknown Movement network ${network}, expected one of ${Object.values(
+        MovementNetwork
+      ).join(", ")}`
+    );
+  }
+  return network as MovementNetwork;
+};
+
+/**
+ * Resolves the endpoints and chain ID of a Movement network profile.
+ * APTOS_FULLNODE_URL, APTOS_INDEXER_URL and MOVEMENT_CHAIN_ID only apply to the network selected by
+ * MOVEMENT_NETWORK, so that a server can serve other networks with their built-in profiles.
+ * The URL variables may list fallback endpoints after the primary one, separated by commas.
+ * @param network - The network profile, defaults to the one selected by MOVEMENT_NETWORK.
+ * @param overrides - Optional endpoints or chain ID that replace the profile's values.
+ * @returns The {@link MovementConfig} of the network.
+ * @throws Will throw an error if the network has no fullnode or indexer URL, e.g. a custom network without endpoints.
+ */
+export const getMovementConfig = (
+  network?: MovementNetwork,
+  overrides?: Partial<Omit<MovementConfig, "network">>
+): MovementConfig => {
+  const defaultNetwork = getDefaultNetwork();
+  const selected = network ?? defaultNetwork;
+  const profile: Partial<Omit<MovementConfig, "network">> =
+    selected === MovementNetwork.CUSTOM ? {} : networkProfiles[selected];
+  const [fullnodeUrl, ...fallbackFullnodeUrls] = parseUrls(
+    config.aptos.FULLNODE_URL
+  );
+  const [indexerUrl, ...fallbackIndexerUrls] = parseUrls(config.aptos.INDEXER);
+  const environment: Partial<Omit<MovementConfig, "network">> =
+    selected === defaultNetwork
+      ? {
+          fullnodeUrl,
+          indexerUrl,
+          fallbackFullnodeUrls: fullnodeUrl ? fallbackFullnodeUrls : undefined,
+          fallbackIndexerUrls: indexerUrl ? fallbackIndexerUrls : undefined,
+          chainId: config.aptos.CHAIN_ID
+            ? Number(config.aptos.CHAIN_ID)
+            : undefined,
+        }
+      : {};
+  const movementConfig: MovementConfig = {
+    network: selected,
+    fullnodeUrl:
+      overrides?.fullnodeUrl ?? environment.fullnodeUrl ?? profile.fullnodeUrl,
+    indexerUrl:
+      overrides?.indexerUrl ?? environment.indexerUrl ?? profile.indexerUrl,
+    chainId: overrides?.chainId ?? environment.chainId ?? profile.chainId,
+    // Fallbacks of the environment only belong with its primary URL
+    fallbackFullnodeUrls:
+      overrides?.fallbackFullnodeUrls ??
+      (overrides?.fullnodeUrl ? undefined : environment.fallbackFullnodeUrls),
+    fallbackIndexerUrls:
+      overrides?.fallbackIndexerUrls ??
+      (overrides?.indexerUrl ? undefined : environment.fallbackIndexerUrls),
+  };
+  if (!movementConfig.fullnodeUrl || !movementConfig.indexerUrl) {
+    throw new Error(
+      `Movement network ${selected} has no fullnode or indexer URL. Please check APTOS_FULLNODE_URL and APTOS_INDEXER_URL environment variables.`
+    );
+  }
+  return movementConfig;
+};
@@ -21,6 +21,46 @@ const options = {
           description: "Fireblocks vault account ID",
           schema: { type: "string", example: "12345" },
         },
+        addressIndex: {
+          name: "index",
+          in: "path",
+          required: true,
+          description:
+            "Address index within the vault, the last index of the derivation path [44, 637, vaultId, 0, index]",
+          schema: { type: "integer", minimum: 0, example: 1 },
+        },
+        network: {
+          name: "X-Movement-Network",
+          in: "header",
+          required: false,
+          description:
+            "Movement network profile of the request, defaults to the server's MOVEMENT_NETWORK",
+          schema: {
+            type: "string",
+            enum: ["mainnet", "testnet", "devnet", "local", "custom"],
+          },
+        },
+        idempotencyKey: {
+          name: "Idempotency-Key",
+          in: "header",
+          required: false,
+          description:
+            "Unique key of the request, sent to Fireblocks as the externalTxId. Retries with the same key and request return the original transaction instead of signing again, another request with the key is refused with 422",
+          schema: { type: "string", maxLength: 200 },
+        },
+      },
+      schemas: {
+        ProvisionedVault: {
+          type: "object",
+          properties: {
+            vaultAccountId: { type: "string", example: "42" },
+            name: { type: "string", example: "customer-42" },
+            customerRefId: { type: "string", example: "cust-42" },
+            hiddenOnUI: { type: "boolean", example: true },
+            address: { type: "string", example: "0x1a2b3c4d" },
+            publicKey: { type: "string", example: "abcdef12345" },
+          },
+        },
       },
     },
   },
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemoryTransactionStore } from "../src/store/MemoryTransactionStore";
+import { TransactionRecord, TransactionStatus } from "../src/store/types";
+import { TransactionType } from "../src/services/types";
+import {
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../src/utils/errorHandling";
+
+const createRecord = (
+  id: string,
+  status: TransactionStatus,
+  updatedAt = new Date().toISOString()
+): TransactionRecord => ({
+  id,
+  vaultAccountId: "1",
+  transactionType: TransactionType.MOVE,
+  status,
+  senderAddress: "0x1",
+  senderPublicKey: "0x",
+  rawTransaction: "0x",
+  signingMessage: "0x",
+  autoSubmit: true,
+  createdAt: updatedAt,
+  updatedAt,
+});
+
+describe("MemoryTransactionStore", () => {
+  it("updates a record that is in the expected status", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(createRecord("t1", TransactionStatus.SIGNING));
+
+    const updated = await store.update(
+      "t1",
+      { status: TransactionStatus.SIGNED, signature: "aa" },
+      TransactionStatus.SIGNING
+    );
+
+    assert.equal(updated.status, TransactionStatus.SIGNED);
+    assert.equal((await store.get("t1"))?.signature, "aa");
+  });
+
+  it("refuses to update a record that moved on", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(createRecord("t1", TransactionStatus.CANCELLED));
+
+    await assert.rejects(
+      store.update(
+        "t1",
+        { status: TransactionStatus.SIGNED },
+        TransactionStatus.SIGNING
+      ),
+      TransactionStateError
+    );
+    assert.equal((await store.get("t1"))?.status, TransactionStatus.CANCELLED);
+  });
+
+  it("lets only one of two concurrent transitions win", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(createRecord("t1", TransactionStatus.SIGNING));
+
+    const results = await Promise.all(
+      [TransactionStatus.SIGNED, TransactionStatus.CANCELLED].map((status) =>
+        store.update("t1", { status }, TransactionStatus.SIGNING).then(
+          () => "updated",
+          (error) =>
+            error instanceof TransactionStateError ? "refused" : error
+        )
+      )
+    );
+
+    assert.deepEqual(results, ["updated", "refused"]);
+  });
+
+  it("updates a record and its update time", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(
+      createRecord("t1", TransactionStatus.SIGNING, "2020-01-01T00:00:00.000Z")
+    );
+
+    const updated = await store.update("t1", {
+      status: TransactionStatus.SIGNED,
+      signature: "aa",
+    });
+
+    assert.equal(updated.status, TransactionStatus.SIGNED);
+    assert.equal((await store.get("t1"))?.signature, "aa");
+    assert.notEqual(updated.updatedAt, "2020-01-01T00:00:00.000Z");
+    assert.equal(updated.createdAt, "2020-01-01T00:00:00.000Z");
+  });
+
+  it("refuses to update a missing record", async () => {
+    const store = new MemoryTransactionStore();
+
+    await assert.rejects(
+      store.update("missing", { status: TransactionStatus.FAILED }),
+      TransactionNotFoundError
+    );
+  });
+
+  it("returns copies that do not change the stored records", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(createRecord("t1", TransactionStatus.PREPARED));
+
+    const record = await store.get("t1");
+    if (record) {
+      record.status = TransactionStatus.FAILED;
+    }
+
+    assert.equal((await store.get("t1"))?.status, TransactionStatus.PREPARED);
+  });
+
+  it("lists the records in the given statuses", async () => {
+    const store = new MemoryTransactionStore();
+    await store.save(createRecord("t1", TransactionStatus.SIGNING));
+    await store.save(createRecord("t2", TransactionStatus.COMMITTED));
+    await store.save(createRecord("t3", TransactionStatus.SUBMITTED));
+
+    const records = await store.list({
+      statuses: [TransactionStatus.SIGNING, TransactionStatus.SUBMITTED],
+    });
+
+    assert.deepEqual(
+      records.map((record) => record.id),
+      ["t1", "t3"]
+    );
+  });
+
+  it("prunes only settled records older than the cutoff", async () => {
+    const store = new MemoryTransactionStore();
+    const old = "2020-01-01T00:00:00.000Z";
+    await store.save(createRecord("old", TransactionStatus.COMMITTED, old));
+    await store.save(createRecord("pending", TransactionStatus.SUBMITTED, old));
+    await store.save(createRecord("recent", TransactionStatus.FAILED));
+
+    const pruned = await store.prune("2021-01-01T00:00:00.000Z");
+
+    assert.equal(pruned, 1);
+    assert.deepEqual(
+      (await store.list()).map((record) => record.id),
+      ["pending", "recent"]
+    );
+  });
+});
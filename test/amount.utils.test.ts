@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatAmount, parseAmount } from "../src/utils/amount.utils";
+import { AmountUnit } from "../src/services/types";
+
+describe("parseAmount", () => {
+  it("keeps base unit amounts as they are", () => {
+    assert.equal(
+      parseAmount("150000000", AmountUnit.BASE, 8),
+      BigInt(150000000)
+    );
+    assert.equal(parseAmount(42, AmountUnit.BASE, 8), BigInt(42));
+    assert.equal(parseAmount(BigInt(7), AmountUnit.BASE, 8), BigInt(7));
+  });
+
+  it("keeps the precision of large amounts passed as strings", () => {
+    assert.equal(
+      parseAmount("123456789012345678901234567890", AmountUnit.BASE, 8),
+      BigInt("123456789012345678901234567890")
+    );
+  });
+
+  it("converts decimal amounts without floating point rounding", () => {
+    assert.equal(
+      parseAmount("12.5", AmountUnit.DECIMAL, 8),
+      BigInt(1250000000)
+    );
+    assert.equal(parseAmount("0.1", AmountUnit.DECIMAL, 8), BigInt(10000000));
+    assert.equal(parseAmount(3, AmountUnit.DECIMAL, 6), BigInt(3000000));
+    assert.equal(
+      parseAmount(BigInt(2), AmountUnit.DECIMAL, 8),
+      BigInt(200000000)
+    );
+  });
+
+  it("refuses more fractional digits than the asset has", () => {
+    assert.throws(
+      () => parseAmount("0.123", AmountUnit.DECIMAL, 2),
+      /more than 2 decimal places/
+    );
+  });
+
+  it("refuses fractional base unit amounts", () => {
+    assert.throws(
+      () => parseAmount("1.5", AmountUnit.BASE, 8),
+      /whole number of base units/
+    );
+  });
+
+  it("refuses negative and malformed amounts", () => {
+    assert.throws(() => parseAmount("-1", AmountUnit.BASE, 8));
+    assert.throws(() => parseAmount(BigInt(-1), AmountUnit.BASE, 8));
+    assert.throws(() => parseAmount("1e5", AmountUnit.DECIMAL, 8));
+    assert.throws(() => parseAmount("", AmountUnit.BASE, 8));
+    assert.throws(() => parseAmount(Number.NaN, AmountUnit.BASE, 8));
+  });
+
+  it("refuses numbers beyond the safe integer range", () => {
+    assert.throws(
+      () => parseAmount(2 ** 60, AmountUnit.BASE, 8),
+      /safe integer range/
+    );
+  });
+});
+
+describe("formatAmount", () => {
+  it("formats base units as whole tokens without trailing zeros", () => {
+    assert.equal(formatAmount(BigInt(1250000000), 8), "12.5");
+    assert.equal(formatAmount(BigInt(100000000), 8), "1");
+    assert.equal(formatAmount(BigInt(1), 8), "0.00000001");
+    assert.equal(formatAmount(BigInt(0), 8), "0");
+  });
+
+  it("formats negative amounts and assets without decimals", () => {
+    assert.equal(formatAmount(BigInt(-150), 2), "-1.5");
+    assert.equal(formatAmount(BigInt(42), 0), "42");
+  });
+
+  it("round-trips with parseAmount", () => {
+    const amount = "98765.4321";
+    assert.equal(
+      formatAmount(parseAmount(amount, AmountUnit.DECIMAL, 8), 8),
+      amount
+    );
+  });
+});
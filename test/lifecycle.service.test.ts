@@ -0,0 +1,234 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  AccountAddress,
+  ChainId,
+  RawTransaction,
+  Script,
+  SimpleTransaction,
+  TransactionPayloadScript,
+} from "@aptos-labs/ts-sdk";
+import { SignedMessageSignature } from "@fireblocks/ts-sdk";
+import { TransactionLifecycleService } from "../src/services/lifecycle.service";
+import { MovementService } from "../src/services/movement.service";
+import {
+  CreateTransactionArguments,
+  MovementNetwork,
+  TransactionSigner,
+  TransactionType,
+} from "../src/services/types";
+import { MemoryTransactionStore } from "../src/store/MemoryTransactionStore";
+import { TransactionStatus } from "../src/store/types";
+import {
+  TransactionNotFoundError,
+  TransactionStateError,
+} from "../src/utils/errorHandling";
+
+const longAddress = `0x${"ab".repeat(32)}`;
+const signature = { fullSig: "cd".repeat(64) } as SignedMessageSignature;
+
+// Builds, submits and commits transactions without a fullnode
+const createMovementService = () =>
+  ({
+    getNetworkConfig: () => ({ network: MovementNetwork.TESTNET }),
+    buildTransaction: async () =>
+      new SimpleTransaction(
+        new RawTransaction(
+          AccountAddress.ONE,
+          BigInt(0),
+          new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+          BigInt(1),
+          BigInt(1),
+          BigInt(Math.floor(Date.now() / 1000) + 600),
+          new ChainId(1)
+        )
+      ),
+    serializeTransaction: () => new Uint8Array([1, 2, 3]),
+    createSenderAuthenticator: () => ({}),
+    submitTransaction: async () => ({ hash: "0x1" }),
+    waitForTransaction: async () => ({ vm_status: "Executed" }),
+  }) as unknown as MovementService;
+
+// Signing requests are settled by the test through the returned callbacks
+const createSigner = () => {
+  const requests: string[] = [];
+  const cancelled: string[] = [];
+  let settle: (result: SignedMessageSignature | Error) => void = () => {};
+  const signatures = new Promise<SignedMessageSignature>((resolve, reject) => {
+    settle = (result) =>
+      result instanceof Error ? reject(result) : resolve(result);
+  });
+  const signer = {
+    requestRawSignature: async () => {
+      requests.push(`fb-${requests.length + 1}`);
+      return requests[requests.length - 1];
+    },
+    waitForRawSignature: () => signatures,
+    cancelSigningRequest: async (requestId: string) => {
+      cancelled.push(requestId);
+      return true;
+    },
+  } as unknown as TransactionSigner;
+  return { signer, requests, cancelled, settle };
+};
+
+const createArguments = (): CreateTransactionArguments => ({
+  transactionType: TransactionType.MOVE,
+  recipientAddress: `0x${"ef".repeat(32)}`,
+  amount: "100",
+  movementAddress: longAddress,
+  movementPublicKey: "0x",
+  movementService: createMovementService(),
+  signer: createSigner().signer,
+  vaultAccountId: "1",
+});
+
+// Signatures and commits are collected in the background
+const waitForStatus = async (
+  transactionStore: MemoryTransactionStore,
+  id: string,
+  status: TransactionStatus
+): Promise<void> => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if ((await transactionStore.get(id))?.status === status) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.fail(`Transaction ${id} did not become ${status}`);
+};
+
+describe("TransactionLifecycleService", () => {
+  it("moves a transaction from prepared through signed to committed", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const { signer, requests, settle } = createSigner();
+    const lifecycle = new TransactionLifecycleService(
+      createMovementService(),
+      signer,
+      transactionStore
+    );
+
+    const prepared = await lifecycle.prepareTransaction(createArguments());
+    assert.equal(prepared.status, TransactionStatus.PREPARED);
+    assert.equal(prepared.signingMessage, "010203");
+    await assert.rejects(
+      lifecycle.submitSignedTransaction(prepared.id),
+      TransactionStateError
+    );
+
+    const signing = await lifecycle.signPreparedTransaction(prepared.id);
+    assert.equal(signing.status, TransactionStatus.SIGNING);
+    assert.equal(signing.fireblocksTxId, "fb-1");
+    assert.deepEqual(requests, ["fb-1"]);
+
+    settle(signature);
+    await waitForStatus(
+      transactionStore,
+      prepared.id,
+      TransactionStatus.SIGNED
+    );
+    assert.equal(
+      (await transactionStore.get(prepared.id))?.signature,
+      signature.fullSig
+    );
+
+    const submitted = await lifecycle.submitSignedTransaction(prepared.id);
+    assert.equal(submitted.status, TransactionStatus.SUBMITTED);
+    assert.equal(submitted.transactionHash, "0x1");
+    await waitForStatus(
+      transactionStore,
+      prepared.id,
+      TransactionStatus.COMMITTED
+    );
+    assert.equal(
+      (await transactionStore.get(prepared.id))?.vmStatus,
+      "Executed"
+    );
+  });
+
+  it("asks Fireblocks once when a transaction is signed concurrently", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const { signer, requests } = createSigner();
+    const lifecycle = new TransactionLifecycleService(
+      createMovementService(),
+      signer,
+      transactionStore
+    );
+    const { id } = await lifecycle.prepareTransaction(createArguments());
+
+    const results = await Promise.all(
+      [1, 2].map(() =>
+        lifecycle.signPreparedTransaction(id).then(
+          () => undefined,
+          (error) => error
+        )
+      )
+    );
+
+    assert.equal(
+      results.filter((error) => error instanceof TransactionStateError).length,
+      1
+    );
+    assert.deepEqual(requests, ["fb-1"]);
+  });
+
+  it("ignores a signature that arrives after the transaction was cancelled", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const { signer, cancelled, settle } = createSigner();
+    const lifecycle = new TransactionLifecycleService(
+      createMovementService(),
+      signer,
+      transactionStore
+    );
+    const { id } = await lifecycle.prepareTransaction(createArguments());
+    await lifecycle.signPreparedTransaction(id);
+
+    const cancelledRecord = await lifecycle.cancelTransaction(id);
+    settle(signature);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(cancelledRecord.status, TransactionStatus.CANCELLED);
+    assert.deepEqual(cancelled, ["fb-1"]);
+    assert.equal(
+      (await transactionStore.get(id))?.status,
+      TransactionStatus.CANCELLED
+    );
+    await assert.rejects(
+      lifecycle.submitSignedTransaction(id),
+      TransactionStateError
+    );
+  });
+
+  it("fails a transaction whose signing request is rejected", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const { signer, settle } = createSigner();
+    const lifecycle = new TransactionLifecycleService(
+      createMovementService(),
+      signer,
+      transactionStore
+    );
+    const { id } = await lifecycle.prepareTransaction(createArguments());
+    await lifecycle.signPreparedTransaction(id);
+
+    settle(new Error("Signing request was rejected"));
+    await waitForStatus(transactionStore, id, TransactionStatus.FAILED);
+
+    assert.match(
+      (await transactionStore.get(id))?.error ?? "",
+      /Signing request was rejected/
+    );
+  });
+
+  it("refuses to sign an unknown transaction", async () => {
+    const lifecycle = new TransactionLifecycleService(
+      createMovementService(),
+      createSigner().signer,
+      new MemoryTransactionStore()
+    );
+
+    await assert.rejects(
+      lifecycle.signPreparedTransaction("missing"),
+      TransactionNotFoundError
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  AccountAddress,
+  ChainId,
+  RawTransaction,
+  Script,
+  SimpleTransaction,
+  TransactionPayloadScript,
+} from "@aptos-labs/ts-sdk";
+import {
+  createBatchTransactions,
+  createTransaction,
+  getRequestFingerprint,
+  isValidAccountAddress,
+  parseAccountAddress,
+} from "../src/utils/movement.utils";
+import { MovementService } from "../src/services/movement.service";
+import {
+  CreateTransactionArguments,
+  MovementNetwork,
+  TransactionSigner,
+  TransactionType,
+} from "../src/services/types";
+import { MemoryTransactionStore } from "../src/store/MemoryTransactionStore";
+import { TransactionRecord, TransactionStatus } from "../src/store/types";
+import { IdempotencyKeyMismatchError } from "../src/utils/errorHandling";
+
+const longAddress = `0x${"ab".repeat(32)}`;
+
+describe("parseAccountAddress", () => {
+  it("accepts the long form", () => {
+    assert.equal(parseAccountAddress(longAddress), longAddress);
+    assert.equal(parseAccountAddress(`0x${"AB".repeat(32)}`), longAddress);
+  });
+
+  it("expands the short form of special addresses", () => {
+    assert.equal(parseAccountAddress("0x1"), `0x${"0".repeat(63)}1`);
+    assert.equal(parseAccountAddress("0xa"), `0x${"0".repeat(63)}a`);
+  });
+
+  it("refuses short forms of other addresses", () => {
+    assert.throws(
+      () => parseAccountAddress("0xabc"),
+      /expected 0x followed by 64 hex characters/
+    );
+    assert.throws(() => parseAccountAddress("0x00a"));
+  });
+
+  it("refuses values that are no 0x-prefixed hex strings", () => {
+    for (const address of [
+      "ab".repeat(32),
+      "0x",
+      "0xzz",
+      `${longAddress}0`,
+      1,
+    ]) {
+      assert.throws(() => parseAccountAddress(address));
+    }
+  });
+
+  it("pads short forms when relaxed", () => {
+    assert.equal(
+      parseAccountAddress("0xabc", { relaxed: true }),
+      `0x${"0".repeat(61)}abc`
+    );
+    assert.throws(() => parseAccountAddress("abc", { relaxed: true }));
+  });
+});
+
+describe("isValidAccountAddress", () => {
+  it("tells which values parseAccountAddress accepts", () => {
+    assert.equal(isValidAccountAddress(longAddress), true);
+    assert.equal(isValidAccountAddress("0xf"), true);
+    assert.equal(isValidAccountAddress("0xabc"), false);
+    assert.equal(isValidAccountAddress("0xabc", { relaxed: true }), true);
+    assert.equal(isValidAccountAddress(undefined), false);
+  });
+});
+
+const recipientAddress = `0x${"cd".repeat(32)}`;
+
+// Only the network and the outcome of submitted transactions are read on the idempotent path
+const createMovementService = () =>
+  ({
+    getNetworkConfig: () => ({ network: MovementNetwork.TESTNET }),
+    waitForTransaction: async ({
+      transactionHash,
+    }: {
+      transactionHash: string;
+    }) => ({ hash: transactionHash, success: true, vm_status: "Executed" }),
+  }) as unknown as MovementService;
+
+// Signing again would mean the idempotency key was not honoured
+const signer = new Proxy(
+  {},
+  {
+    get: () => () => {
+      throw new Error("Unexpected signing request");
+    },
+  }
+) as TransactionSigner;
+
+const createArguments = (
+  transactionStore: MemoryTransactionStore,
+  amount = "100"
+): CreateTransactionArguments => ({
+  transactionType: TransactionType.MOVE,
+  recipientAddress,
+  amount,
+  movementAddress: longAddress,
+  movementPublicKey: "0x",
+  movementService: createMovementService(),
+  signer,
+  vaultAccountId: "1",
+  transactionStore,
+  idempotencyKey: "key-1",
+});
+
+const serializeSequenceNumber = (sequenceNumber: number): string =>
+  new SimpleTransaction(
+    new RawTransaction(
+      AccountAddress.ONE,
+      BigInt(sequenceNumber),
+      new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+      BigInt(1),
+      BigInt(1),
+      BigInt(1),
+      new ChainId(1)
+    )
+  )
+    .bcsToHex()
+    .toString();
+
+const createRecord = (
+  id: string,
+  requestFingerprint: string,
+  sequenceNumber = 0
+): TransactionRecord => ({
+  id,
+  vaultAccountId: "1",
+  network: MovementNetwork.TESTNET,
+  transactionType: TransactionType.MOVE,
+  status: TransactionStatus.COMMITTED,
+  senderAddress: longAddress,
+  senderPublicKey: "0x",
+  rawTransaction: serializeSequenceNumber(sequenceNumber),
+  signingMessage: "0x",
+  autoSubmit: true,
+  idempotencyKey: "key-1",
+  requestFingerprint,
+  transactionHash: `0x${id}`,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+describe("createTransaction", () => {
+  it("returns the transaction of a repeated idempotency key without signing again", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const args = createArguments(transactionStore);
+    await transactionStore.save(
+      createRecord("t1", getRequestFingerprint(args))
+    );
+
+    const response = await createTransaction(args);
+
+    assert.equal(response.transferId, "t1");
+    assert.equal(response.hash, "0xt1");
+  });
+
+  it("refuses an idempotency key repeated with another amount", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    await transactionStore.save(
+      createRecord(
+        "t1",
+        getRequestFingerprint(createArguments(transactionStore))
+      )
+    );
+
+    await assert.rejects(
+      createTransaction(createArguments(transactionStore, "200")),
+      IdempotencyKeyMismatchError
+    );
+  });
+
+  it("refuses an idempotency key repeated by another vault", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const args = createArguments(transactionStore);
+    await transactionStore.save(
+      createRecord("t1", getRequestFingerprint(args))
+    );
+
+    await assert.rejects(
+      createTransaction({ ...args, vaultAccountId: "2" }),
+      IdempotencyKeyMismatchError
+    );
+  });
+});
+
+describe("createBatchTransactions", () => {
+  it("returns the results of a repeated batch in sequence number order", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const batch = [
+      createArguments(transactionStore),
+      createArguments(transactionStore, "200"),
+    ];
+    const requestFingerprint = getRequestFingerprint(batch);
+    await transactionStore.save(createRecord("t2", requestFingerprint, 8));
+    await transactionStore.save(createRecord("t1", requestFingerprint, 7));
+
+    const results = await createBatchTransactions(batch);
+
+    assert.deepEqual(
+      results.map(({ transferId, sequenceNumber, success }) => ({
+        transferId,
+        sequenceNumber,
+        success,
+      })),
+      [
+        { transferId: "t1", sequenceNumber: "7", success: true },
+        { transferId: "t2", sequenceNumber: "8", success: true },
+      ]
+    );
+  });
+
+  it("refuses the idempotency key of a single transfer", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const args = createArguments(transactionStore);
+    await transactionStore.save(
+      createRecord("t1", getRequestFingerprint(args))
+    );
+
+    await assert.rejects(
+      createBatchTransactions([args, createArguments(transactionStore, "200")]),
+      IdempotencyKeyMismatchError
+    );
+  });
+});
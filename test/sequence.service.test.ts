@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SequenceNumberService } from "../src/services/sequence.service";
+import { MovementService } from "../src/services/movement.service";
+
+const address = "0x1";
+
+// Only the on-chain sequence number is read by the allocator
+const createMovementService = (onChainSequenceNumber: bigint) => {
+  const service = {
+    reads: 0,
+    getAccountSequenceNumber: async (): Promise<bigint> => {
+      service.reads++;
+      return onChainSequenceNumber;
+    },
+  };
+  return service;
+};
+
+const asMovementService = (service: object): MovementService =>
+  service as unknown as MovementService;
+
+describe("SequenceNumberService", () => {
+  it("hands out consecutive numbers from the on-chain sequence number", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+
+    const first = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+    const second = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    assert.equal(first, BigInt(5));
+    assert.equal(second, BigInt(6));
+    assert.equal(movementService.reads, 1);
+  });
+
+  it("reserves a block of consecutive numbers", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    const numbers = await sequenceNumberService.reserveSequenceNumbers(
+      asMovementService(movementService),
+      address,
+      3
+    );
+
+    assert.deepEqual(numbers, [BigInt(6), BigInt(7), BigInt(8)]);
+  });
+
+  it("does not hand out the same number to concurrent reservations", async () => {
+    const movementService = createMovementService(BigInt(0));
+    const sequenceNumberService = new SequenceNumberService();
+
+    const numbers = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        sequenceNumberService.reserveSequenceNumber(
+          asMovementService(movementService),
+          address
+        )
+      )
+    );
+
+    assert.deepEqual(
+      [...numbers].sort((a, b) => Number(a - b)),
+      [0, 1, 2, 3, 4].map(BigInt)
+    );
+    assert.equal(movementService.reads, 1);
+  });
+
+  it("hands out a released number again before higher ones", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    await sequenceNumberService.reserveSequenceNumbers(
+      asMovementService(movementService),
+      address,
+      3
+    );
+
+    sequenceNumberService.releaseSequenceNumber(address, BigInt(6));
+    const numbers = await sequenceNumberService.reserveSequenceNumbers(
+      asMovementService(movementService),
+      address,
+      2
+    );
+
+    assert.deepEqual(numbers, [BigInt(6), BigInt(8)]);
+  });
+
+  it("hands out the last reserved number again once it is released", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    sequenceNumberService.releaseSequenceNumber(address, BigInt(6));
+    const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    assert.equal(sequenceNumber, BigInt(6));
+  });
+
+  it("rereads the chain once no reservation is pending", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    sequenceNumberService.confirmSequenceNumber(address, sequenceNumber);
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    assert.equal(movementService.reads, 2);
+  });
+
+  it("rereads the chain once every reservation expired", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address,
+      Math.floor(Date.now() / 1000) - 1
+    );
+
+    const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    assert.equal(sequenceNumber, BigInt(5));
+    assert.equal(movementService.reads, 2);
+  });
+
+  it("hands out the number of an expired reservation again", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    const now = Math.floor(Date.now() / 1000);
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address,
+      now + 600
+    );
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address,
+      now - 1
+    );
+
+    const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      address
+    );
+
+    assert.equal(sequenceNumber, BigInt(6));
+  });
+
+  it("tracks addresses case-insensitively", async () => {
+    const movementService = createMovementService(BigInt(5));
+    const sequenceNumberService = new SequenceNumberService();
+    await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      "0xAB"
+    );
+
+    const sequenceNumber = await sequenceNumberService.reserveSequenceNumber(
+      asMovementService(movementService),
+      "0xab"
+    );
+
+    assert.equal(sequenceNumber, BigInt(6));
+  });
+});
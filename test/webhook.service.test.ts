@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { createSign, generateKeyPairSync } from "node:crypto";
+import { describe, it } from "node:test";
+import { FireblocksWebhookService } from "../src/services/webhook.service";
+
+const createKeyPair = () =>
+  generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+
+const sign = (body: string, privateKey: string): string =>
+  createSign("RSA-SHA512").update(body).sign(privateKey, "base64");
+
+const { publicKey, privateKey } = createKeyPair();
+const body = JSON.stringify({
+  type: "TRANSACTION_STATUS_UPDATED",
+  data: { id: "tx-1", status: "COMPLETED" },
+});
+
+describe("FireblocksWebhookService", () => {
+  it("accepts a body signed with the webhook key", () => {
+    const webhookService = new FireblocksWebhookService(publicKey);
+
+    assert.equal(
+      webhookService.verifySignature(Buffer.from(body), sign(body, privateKey)),
+      true
+    );
+  });
+
+  it("rejects a body that was changed after signing", () => {
+    const webhookService = new FireblocksWebhookService(publicKey);
+    const signature = sign(body, privateKey);
+
+    assert.equal(
+      webhookService.verifySignature(
+        body.replace("COMPLETED", "FAILED"),
+        signature
+      ),
+      false
+    );
+  });
+
+  it("rejects missing, malformed and foreign signatures", () => {
+    const webhookService = new FireblocksWebhookService(publicKey);
+
+    assert.equal(webhookService.verifySignature(body, undefined), false);
+    assert.equal(webhookService.verifySignature(body, "not base64"), false);
+    assert.equal(
+      webhookService.verifySignature(
+        body,
+        sign(body, createKeyPair().privateKey)
+      ),
+      false
+    );
+  });
+
+  it("hands a transaction update to the request waiting for it", async () => {
+    const webhookService = new FireblocksWebhookService(publicKey);
+    const update = webhookService.waitForUpdate("tx-1", 1000, Date.now());
+
+    webhookService.handleEvent(JSON.parse(body));
+
+    assert.equal((await update)?.status, "COMPLETED");
+  });
+
+  it("keeps an update that arrives before the request waits for it", async () => {
+    const webhookService = new FireblocksWebhookService(publicKey);
+    const since = Date.now() - 1;
+
+    webhookService.handleEvent(JSON.parse(body));
+
+    assert.equal(
+      (await webhookService.waitForUpdate("tx-1", 1000, since))?.id,
+      "tx-1"
+    );
+  });
+});